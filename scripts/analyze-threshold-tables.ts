@@ -0,0 +1,251 @@
+/**
+ * Threshold Table Plausibility Analyser
+ *
+ * Checks every registered threshold bundle for properties that transcription
+ * errors from the guideline PDF would break:
+ * - required factors do not rise with older age (same column)
+ * - required factors do not rise with worse T-score (same row; no_bmd excluded)
+ * - at the same cell, 10% ≥ 5% ≥ 3% (an empty cell counts as "already reached")
+ * - empty cells only where expected: at the end of a row, and never above a
+ *   value in the same column (empty regions grow with age)
+ *
+ * Every finding carries the source page(s) from ThresholdTable.source.
+ * A coverage matrix (value / empty / gap) is produced per table.
+ *
+ * Run with: npx tsx scripts/analyze-threshold-tables.ts [--json]
+ */
+
+import { pathToFileURL } from 'node:url';
+import { listBundles } from '../src/data/bundleRegistry';
+import { getAvailableAgeBins, getAvailableTscoreBins } from '../src/data/lookup';
+import type { DVOBundle, ThresholdTable } from '../src/data/types';
+
+export type FindingKind =
+  | "non_monotonic_age"
+  | "non_monotonic_tscore"
+  | "cross_threshold_inversion"
+  | "unexpected_empty";
+
+export interface PlausibilityFinding {
+  kind: FindingKind;
+  sex: "female" | "male";
+  threshold_percent: 3 | 5 | 10;
+  age: number;
+  tscore: string;           // column key, "no_bmd" or e.g. "-2.5"
+  message: string;
+  source_pages: number[];
+}
+
+type CoverageCell = number | "empty" | "gap";
+
+export interface CoverageMatrix {
+  sex: "female" | "male";
+  threshold_percent: 3 | 5 | 10;
+  columns: string[];        // "no_bmd", then T-score bins best → worst
+  rows: Array<{ age: number; cells: CoverageCell[] }>;
+}
+
+export interface PlausibilityReport {
+  bundle_version: string;
+  findings: PlausibilityFinding[];
+  coverage: CoverageMatrix[];
+}
+
+const THRESHOLD_ORDER: Array<3 | 5 | 10> = [3, 5, 10];
+
+/**
+ * Cell accessor of one table: required factor or null (empty)
+ */
+function cellReader(table: ThresholdTable): (age: number, tscore: string) => number | null {
+  const cells = new Map(table.entries.map((e) => [`${e.age}|${e.tscore}`, e.required_factor]));
+  return (age, tscore) => cells.get(`${age}|${tscore}`) ?? null;
+}
+
+function tableColumns(table: ThresholdTable): string[] {
+  return ["no_bmd", ...getAvailableTscoreBins(table).map((bin) => bin.toFixed(1))];
+}
+
+/**
+ * Monotonicity and empty-cell checks within one table, plus its coverage matrix
+ */
+function analyzeTable(table: ThresholdTable): { findings: PlausibilityFinding[]; coverage: CoverageMatrix } {
+  const findings: PlausibilityFinding[] = [];
+  const read = cellReader(table);
+  const ages = getAvailableAgeBins(table);
+  const columns = tableColumns(table);
+  const tscoreColumns = columns.slice(1);
+  const pages = table.source?.pages ?? [];
+  const name = `${table.sex} ${table.threshold_percent}%`;
+
+  const finding = (kind: FindingKind, age: number, tscore: string, message: string) => {
+    findings.push({
+      kind,
+      sex: table.sex,
+      threshold_percent: table.threshold_percent,
+      age,
+      tscore,
+      message: `${name}: ${message}`,
+      source_pages: pages,
+    });
+  };
+
+  // Older age must not need a larger factor (same column)
+  for (const column of columns) {
+    for (let i = 1; i < ages.length; i++) {
+      const younger = read(ages[i - 1], column);
+      const older = read(ages[i], column);
+      if (younger !== null && older !== null && older > younger) {
+        finding("non_monotonic_age", ages[i], column,
+          `age ${ages[i]} (${older}) > age ${ages[i - 1]} (${younger}) in column ${column}`);
+      }
+      if (younger === null && older !== null) {
+        finding("unexpected_empty", ages[i - 1], column,
+          `empty at age ${ages[i - 1]} but value ${older} at age ${ages[i]} in column ${column}`);
+      }
+    }
+  }
+
+  // Worse T-score must not need a larger factor (same row, no_bmd is not part of the T-score order)
+  const coverageRows = ages.map((age) => {
+    const values = tscoreColumns.map((column) => read(age, column));
+    const lastValueIndex = values.reduce<number>((last, value, index) => (value !== null ? index : last), -1);
+
+    for (let i = 1; i < tscoreColumns.length; i++) {
+      const better = values[i - 1];
+      const worse = values[i];
+      if (better !== null && worse !== null && worse > better) {
+        finding("non_monotonic_tscore", age, tscoreColumns[i],
+          `T-score ${tscoreColumns[i]} (${worse}) > ${tscoreColumns[i - 1]} (${better}) at age ${age}`);
+      }
+    }
+
+    const cells: CoverageCell[] = values.map((value, index) => {
+      if (value !== null) return value;
+      if (index < lastValueIndex) {
+        finding("unexpected_empty", age, tscoreColumns[index],
+          `gap at age ${age}, T-score ${tscoreColumns[index]} (worse T-scores of this row have values)`);
+        return "gap";
+      }
+      return "empty";
+    });
+
+    const noBmd: CoverageCell = read(age, "no_bmd") ?? "empty";
+    return { age, cells: [noBmd, ...cells] };
+  });
+
+  return {
+    findings,
+    coverage: {
+      sex: table.sex,
+      threshold_percent: table.threshold_percent,
+      columns,
+      rows: coverageRows,
+    },
+  };
+}
+
+/**
+ * Cross-threshold check: at the same cell, a higher threshold needs at least
+ * the factor of a lower one. An empty cell means "reached without RF", so a
+ * higher threshold may only be empty where the lower one is empty as well.
+ */
+function analyzeCrossThreshold(bundle: DVOBundle): PlausibilityFinding[] {
+  const findings: PlausibilityFinding[] = [];
+
+  for (const sex of ["female", "male"] as const) {
+    const tables = THRESHOLD_ORDER
+      .map((percent) => bundle.tables.find((t) => t.sex === sex && t.threshold_percent === percent))
+      .filter((t): t is ThresholdTable => t !== undefined);
+
+    for (let i = 1; i < tables.length; i++) {
+      const lower = tables[i - 1];
+      const higher = tables[i];
+      const readLower = cellReader(lower);
+      const readHigher = cellReader(higher);
+      const ages = getAvailableAgeBins(higher).filter((age) => getAvailableAgeBins(lower).includes(age));
+      const columns = tableColumns(higher).filter((column) => tableColumns(lower).includes(column));
+      const pages = Array.from(new Set([...(lower.source?.pages ?? []), ...(higher.source?.pages ?? [])]));
+
+      for (const age of ages) {
+        for (const column of columns) {
+          const lowerValue = readLower(age, column);
+          const higherValue = readHigher(age, column);
+          const inverted =
+            (lowerValue !== null && higherValue !== null && higherValue < lowerValue) ||
+            (lowerValue !== null && higherValue === null);
+          if (inverted) {
+            findings.push({
+              kind: "cross_threshold_inversion",
+              sex,
+              threshold_percent: higher.threshold_percent,
+              age,
+              tscore: column,
+              message:
+                `${sex} age ${age}, column ${column}: ${higher.threshold_percent}% ` +
+                `(${higherValue ?? "empty"}) < ${lower.threshold_percent}% (${lowerValue})`,
+              source_pages: pages,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Analyse one bundle: per-table findings, cross-threshold findings and coverage
+ */
+export function analyzeBundle(bundle: DVOBundle): PlausibilityReport {
+  const perTable = bundle.tables.map(analyzeTable);
+  return {
+    bundle_version: bundle.bundle_version,
+    findings: [...perTable.flatMap((t) => t.findings), ...analyzeCrossThreshold(bundle)],
+    coverage: perTable.map((t) => t.coverage),
+  };
+}
+
+function formatCoverage(matrix: CoverageMatrix): string {
+  const width = 7;
+  const pad = (text: string) => text.padStart(width);
+  const header = pad("age") + matrix.columns.map(pad).join("");
+  const rows = matrix.rows.map(({ age, cells }) =>
+    pad(String(age)) +
+    cells.map((cell) => pad(cell === "empty" ? "·" : cell === "gap" ? "GAP" : String(cell))).join("")
+  );
+  return [`${matrix.sex} ${matrix.threshold_percent}% (· = leer/erreicht)`, header, ...rows].join("\n");
+}
+
+// Main execution
+function main() {
+  const reports = listBundles().map((entry) => analyzeBundle(entry.bundle));
+  const findingCount = reports.reduce((sum, report) => sum + report.findings.length, 0);
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(reports, null, 2));
+    process.exit(findingCount > 0 ? 1 : 0);
+  }
+
+  for (const report of reports) {
+    console.log(`Threshold bundle v${report.bundle_version}\n`);
+    report.coverage.forEach((matrix) => console.log(formatCoverage(matrix) + "\n"));
+
+    if (report.findings.length === 0) {
+      console.log('✓ No plausibility findings\n');
+      continue;
+    }
+    console.error(`✗ ${report.findings.length} finding(s):`);
+    report.findings.forEach((f) => {
+      console.error(`  - [${f.kind}] ${f.message} (Seite ${f.source_pages.join(", ") || "?"})`);
+    });
+    console.error('');
+  }
+
+  process.exit(findingCount > 0 ? 1 : 0);
+}
+
+// Run if executed directly
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
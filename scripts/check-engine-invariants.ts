@@ -0,0 +1,300 @@
+/**
+ * Engine Invariant Checker
+ *
+ * Sweeps both sexes, every age 50–100, the no-BMD path and all T-scores from
+ * 0.0 to -5.0 in 0.1 steps, combined with every MEG-valid RF selection up to
+ * --max-rfs RFs (default 2), and asserts:
+ * - adding an RF never lowers the band
+ * - a worse T-score never lowers the band
+ * - enforceMegRules leaves at most one RF per single_choice_optional MEG
+ * - the Top-2 multiplier never exceeds the product of the two largest selected RRs
+ *
+ * RF selections are built the way the UI builds them (toggling via
+ * enforceMegRules). The band depends on the selection only through the
+ * combined multiplier, so every sweep point is assessed once per distinct
+ * multiplier; this keeps the sweep bounded on a single core.
+ *
+ * Each violation is reported as a minimal reproducible input (fewest RFs,
+ * youngest age, best T-score first).
+ *
+ * Run with: npx tsx scripts/check-engine-invariants.ts [--max-rfs N] [--json]
+ */
+
+import { pathToFileURL } from 'node:url';
+import { assessPatient } from '../src/data/assessment';
+import {
+  buildMegIndex,
+  enforceMegRules,
+  getAllRiskFactors,
+  getRiskFactorsForCalculation,
+  loadRfCatalog,
+} from '../src/data/rfCatalog';
+import { computeCombinedMultiplier, selectTop2RiskFactors } from '../src/data/rfSelection';
+import type { MegIndex, RiskBand, RiskFactor, Sex } from '../src/data/types';
+
+export type InvariantId =
+  | "band_monotonic_in_rfs"
+  | "band_monotonic_in_tscore"
+  | "meg_single_choice"
+  | "multiplier_bounded";
+
+export interface ReproInput {
+  sex?: Sex;
+  age?: number;
+  tscoreTotalHip?: number | null;
+  selectedRfIds: string[];
+}
+
+export interface InvariantViolation {
+  invariant: InvariantId;
+  message: string;
+  input: ReproInput;
+}
+
+export interface InvariantReport {
+  max_rfs: number;
+  rf_sets: number;
+  sweep_points: number;
+  assessments: number;
+  violation_counts: Record<InvariantId, number>;
+  violations: InvariantViolation[];   // minimal examples, up to MAX_EXAMPLES per invariant
+}
+
+const AGES = Array.from({ length: 51 }, (_, i) => 50 + i);
+const TSCORES = Array.from({ length: 51 }, (_, i) => -i / 10);
+const SEXES: Sex[] = ["female", "male"];
+const BAND_RANK: Record<RiskBand, number> = { "<3%": 0, "3–<5%": 1, "5–<10%": 2, ">=10%": 3 };
+const MAX_EXAMPLES = 10;
+const EPSILON = 1e-9;
+
+const setKey = (ids: Set<string>) => Array.from(ids).sort().join("+");
+
+/**
+ * MEG invariant: at most one selected RF per single_choice_optional group
+ */
+function megViolation(selected: Set<string>, megIndex: MegIndex): string | null {
+  for (const [megId, { rfIds, mode }] of megIndex.megToRfs) {
+    if (mode !== "single_choice_optional") continue;
+    const chosen = rfIds.filter((id) => selected.has(id));
+    if (chosen.length > 1) return `${megId} has ${chosen.length} selected RFs (${chosen.join(", ")})`;
+  }
+  return null;
+}
+
+/**
+ * Multiplier invariant: Top-2 multiplier ≤ product of the two largest selected RRs
+ */
+function multiplierViolation(selected: Set<string>, calcRfs: RiskFactor[]): string | null {
+  const multiplier = computeCombinedMultiplier(selectTop2RiskFactors(selected, calcRfs));
+  const bound = calcRfs
+    .filter((rf) => selected.has(rf.rf_id))
+    .map((rf) => rf.rr_3y)
+    .sort((a, b) => b - a)
+    .slice(0, 2)
+    .reduce((product, rr) => product * rr, 1.0);
+  return multiplier > bound + EPSILON ? `multiplier ${multiplier} > bound ${bound}` : null;
+}
+
+/**
+ * Enumerate MEG-valid RF selections up to maxRfs RFs by toggling RFs the way
+ * the UI does, checking the MEG invariant on every toggle result.
+ * Also returns the purely additive edges S → S ∪ {rf}.
+ */
+function enumerateRfSets(allRfs: RiskFactor[], megIndex: MegIndex, maxRfs: number) {
+  const sets = new Map<string, Set<string>>([["", new Set()]]);
+  const edges: Array<{ from: string; to: string; rfId: string }> = [];
+  const megViolations: InvariantViolation[] = [];
+  let frontier = [new Set<string>()];
+
+  for (let size = 0; size < maxRfs; size++) {
+    const next: Array<Set<string>> = [];
+    for (const base of frontier) {
+      for (const rf of allRfs) {
+        const toggled = enforceMegRules(base, rf, megIndex, allRfs);
+        const violation = megViolation(toggled, megIndex);
+        if (violation) {
+          megViolations.push({
+            invariant: "meg_single_choice",
+            message: `toggling ${rf.rf_id}: ${violation}`,
+            input: { selectedRfIds: Array.from(base) },
+          });
+        }
+
+        const additive = toggled.size === base.size + 1 && Array.from(base).every((id) => toggled.has(id));
+        if (!additive) continue;
+        const key = setKey(toggled);
+        edges.push({ from: setKey(base), to: key, rfId: rf.rf_id });
+        if (!sets.has(key)) {
+          sets.set(key, toggled);
+          next.push(toggled);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return { sets, edges, megViolations };
+}
+
+/**
+ * Keep the smallest violations: fewest RFs, then youngest age, then best T-score
+ */
+function minimalExamples(violations: InvariantViolation[]): InvariantViolation[] {
+  const tscoreRank = (t: number | null | undefined) => (t === null || t === undefined ? 1 : -t);
+  return [...violations]
+    .sort((a, b) =>
+      a.input.selectedRfIds.length - b.input.selectedRfIds.length ||
+      (a.input.age ?? 0) - (b.input.age ?? 0) ||
+      tscoreRank(a.input.tscoreTotalHip) - tscoreRank(b.input.tscoreTotalHip)
+    )
+    .slice(0, MAX_EXAMPLES);
+}
+
+/**
+ * Run the full invariant sweep
+ *
+ * @param maxRfs - Largest RF selection to enumerate (bounds the sweep)
+ */
+export function checkEngineInvariants(maxRfs = 2): InvariantReport {
+  const catalog = loadRfCatalog();
+  const allRfs = getAllRiskFactors(catalog);
+  const calcRfs = getRiskFactorsForCalculation(catalog);
+  const megIndex = buildMegIndex(catalog);
+
+  const { sets, edges, megViolations } = enumerateRfSets(allRfs, megIndex, maxRfs);
+  const violations: Record<InvariantId, InvariantViolation[]> = {
+    band_monotonic_in_rfs: [],
+    band_monotonic_in_tscore: [],
+    meg_single_choice: megViolations,
+    multiplier_bounded: [],
+  };
+
+  // Group selections by combined multiplier (one representative per group)
+  const multiplierOf = new Map<string, number>();
+  const representatives = new Map<number, Set<string>>();
+  for (const [key, ids] of sets) {
+    const violation = multiplierViolation(ids, calcRfs);
+    if (violation) {
+      violations.multiplier_bounded.push({
+        invariant: "multiplier_bounded",
+        message: violation,
+        input: { selectedRfIds: Array.from(ids) },
+      });
+    }
+    const multiplier = computeCombinedMultiplier(selectTop2RiskFactors(ids, calcRfs));
+    multiplierOf.set(key, multiplier);
+    if (!representatives.has(multiplier)) representatives.set(multiplier, ids);
+  }
+
+  let sweepPoints = 0;
+  let assessments = 0;
+
+  for (const sex of SEXES) {
+    for (const age of AGES) {
+      // band per T-score (null = no BMD) and multiplier
+      const bands = new Map<number | null, Map<number, RiskBand>>();
+      for (const tscore of [null, ...TSCORES]) {
+        sweepPoints++;
+        const byMultiplier = new Map<number, RiskBand>();
+        for (const [multiplier, ids] of representatives) {
+          const result = assessPatient({
+            sex,
+            age,
+            tscoreTotalHip: tscore,
+            selectedRfIds: ids,
+            postmenopausal: sex === "female",
+          });
+          assessments++;
+          if (result) byMultiplier.set(multiplier, result.band);
+        }
+        bands.set(tscore, byMultiplier);
+      }
+
+      // Adding an RF never lowers the band
+      for (const [tscore, byMultiplier] of bands) {
+        for (const { from, to, rfId } of edges) {
+          const before = byMultiplier.get(multiplierOf.get(from)!);
+          const after = byMultiplier.get(multiplierOf.get(to)!);
+          if (before && after && BAND_RANK[after] < BAND_RANK[before]) {
+            violations.band_monotonic_in_rfs.push({
+              invariant: "band_monotonic_in_rfs",
+              message: `adding ${rfId} lowers the band ${before} → ${after}`,
+              input: { sex, age, tscoreTotalHip: tscore, selectedRfIds: Array.from(sets.get(to)!) },
+            });
+          }
+        }
+      }
+
+      // A worse T-score never lowers the band
+      for (const [key, ids] of sets) {
+        const multiplier = multiplierOf.get(key)!;
+        for (let i = 1; i < TSCORES.length; i++) {
+          const better = bands.get(TSCORES[i - 1])?.get(multiplier);
+          const worse = bands.get(TSCORES[i])?.get(multiplier);
+          if (better && worse && BAND_RANK[worse] < BAND_RANK[better]) {
+            violations.band_monotonic_in_tscore.push({
+              invariant: "band_monotonic_in_tscore",
+              message: `T-score ${TSCORES[i - 1].toFixed(1)} → ${TSCORES[i].toFixed(1)} lowers the band ${better} → ${worse}`,
+              input: { sex, age, tscoreTotalHip: TSCORES[i], selectedRfIds: Array.from(ids) },
+            });
+          }
+        }
+      }
+    }
+  }
+
+  const ids = Object.keys(violations) as InvariantId[];
+  return {
+    max_rfs: maxRfs,
+    rf_sets: sets.size,
+    sweep_points: sweepPoints,
+    assessments,
+    violation_counts: Object.fromEntries(ids.map((id) => [id, violations[id].length])) as Record<InvariantId, number>,
+    violations: ids.flatMap((id) => minimalExamples(violations[id])),
+  };
+}
+
+function parseMaxRfs(argv: string[]): number {
+  const index = argv.indexOf('--max-rfs');
+  if (index === -1) return 2;
+  const value = Number(argv[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`Invalid --max-rfs value: ${argv[index + 1]}`);
+    process.exit(2);
+  }
+  return value;
+}
+
+// Main execution
+function main() {
+  const report = checkEngineInvariants(parseMaxRfs(process.argv));
+  const total = Object.values(report.violation_counts).reduce((sum, n) => sum + n, 0);
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+    process.exit(total > 0 ? 1 : 0);
+  }
+
+  console.log(
+    `Checked ${report.rf_sets} RF selections (≤ ${report.max_rfs} RFs), ` +
+    `${report.sweep_points} sweep points, ${report.assessments} assessments\n`
+  );
+  for (const [id, count] of Object.entries(report.violation_counts)) {
+    console.log(`${count === 0 ? '✓' : '✗'} ${id}: ${count} violation(s)`);
+  }
+
+  if (total > 0) {
+    console.error('\nMinimal reproducible inputs:');
+    report.violations.forEach((v) => {
+      console.error(`  - [${v.invariant}] ${v.message}`);
+      console.error(`    ${JSON.stringify(v.input)}`);
+    });
+  }
+
+  process.exit(total > 0 ? 1 : 0);
+}
+
+// Run if executed directly
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
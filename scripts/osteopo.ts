@@ -0,0 +1,450 @@
+/**
+ * osteopo – Command-line assessment tool
+ *
+ * Runs the same headless engine as the SPA (assessPatient) from a terminal
+ * or shell script and lists the reference data.
+ *
+ * Subcommands:
+ *   assess       Risk band, thresholds, chosen RFs, therapy plan, ranked substances
+ *   rfs          RF catalog (rf_id, group, RR, MEG)
+ *   megs         Mutual exclusion groups with their RFs
+ *   substances   Substance registry with evidence level
+ *
+ * Every subcommand accepts --json for machine-readable output.
+ * The context data is schema-validated first; invalid data exits with code 3
+ * instead of computing with it (same check as the SPA start screen).
+ *
+ * Run with: pnpm osteopo assess --sex female --age 67 --tscore -2.8 --rf rf_parent_hip_fracture
+ */
+
+import { parseArgs } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import { assessPatient } from '../src/data/assessment';
+import { DEFAULT_BUNDLE_VERSION, getBundle, getBundleLabel, listBundles } from '../src/data/bundleRegistry';
+import { CONTRAINDICATION_FLAGS, createEmptyContraindicationContext } from '../src/data/contraindications';
+import { FRACTURE_TYPE_LABELS, createEmptyEventInput, isValidIsoDate } from '../src/data/events';
+import { getEvidenceFor } from '../src/data/evidenceTable';
+import { buildMegIndex, findMegConflicts, getAllRiskFactors, loadRfCatalog } from '../src/data/rfCatalog';
+import { validateContextData } from '../src/data/schemaValidation';
+import { getSubstanceLabel, loadSubstanceRegistry } from '../src/data/substanceRegistry';
+import type {
+  AssessmentResult,
+  ContraindicationContext,
+  FractureType,
+  PatientInput,
+  ThresholdResult,
+} from '../src/data/types';
+
+const USAGE = `Aufruf: osteopo <befehl> [optionen]
+
+Befehle:
+  assess       Risikobewertung für eine Person
+  rfs          RF-Katalog auflisten
+  megs         Gegenseitig ausschließende RF-Gruppen (MEG) auflisten
+  substances   Substanzen auflisten
+
+Optionen für assess:
+  --sex female|male          Geschlecht (Pflicht)
+  --age <jahre>              Alter (Pflicht)
+  --tscore <wert>            T-Score Gesamthüfte (ohne Angabe: Berechnung ohne BMD)
+  --rf <rf_id>               Risikofaktor (mehrfach oder kommagetrennt)
+  --postmenopausal           postmenopausal (nur Frauen)
+  --fracture <typ>:<datum>   Fraktur (mehrfach), typ: ${fractureTypes().join("|")}, datum: JJJJ-MM-TT
+  --falls <anzahl>           Stürze in den letzten 12 Monaten
+  --gc-mg <mg/tag>           orale Glukokortikoide, Prednisolon-Äquivalent
+  --gc-months <monate>       Dauer der GC-Therapie (mit --gc-mg)
+  --gc-recent                GC-Therapie in den letzten 12 Monaten begonnen oder erhöht
+  --ci <kontraindikation>    Kontraindikation (mehrfach): ${booleanContraindications().join(", ")}
+  --renal-impaired           eingeschränkte Nierenfunktion (renal_ok = false)
+  --recent-hip-surgery       kürzliche Hüftfraktur-OP
+  --bundle <version>         Version der Schwellentabellen (Standard: ${DEFAULT_BUNDLE_VERSION})
+  --date <JJJJ-MM-TT>        Stichtag für Frakturen/GC in den letzten 12 Monaten (Standard: heute)
+
+Alle Befehle: --json für maschinenlesbare Ausgabe`;
+
+class UsageError extends Error {}
+
+function booleanContraindications(): string[] {
+  return CONTRAINDICATION_FLAGS.map((flag) => flag.key);
+}
+
+function fractureTypes(): FractureType[] {
+  return Object.keys(FRACTURE_TYPE_LABELS) as FractureType[];
+}
+
+function parseNonNegative(value: string, option: string): number {
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isFinite(parsed) || parsed < 0) {
+    throw new UsageError(`${option} muss eine Zahl ≥ 0 sein`);
+  }
+  return parsed;
+}
+
+/**
+ * Join "--option -2.8" into "--option=-2.8" (parseArgs treats a leading dash as an option)
+ */
+function joinNegativeValues(args: string[]): string[] {
+  const joined: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("--") && !args[i].includes("=") && /^-\d/.test(args[i + 1] ?? "")) {
+      joined.push(`${args[i]}=${args[i + 1]}`);
+      i++;
+    } else {
+      joined.push(args[i]);
+    }
+  }
+  return joined;
+}
+
+function formatFactor(value: number | null): string {
+  return value === null ? "–" : value.toFixed(2);
+}
+
+function formatCell(threshold: ThresholdResult): string {
+  if (threshold.lookup.status === "value") return formatFactor(threshold.lookup.required_factor);
+  return threshold.lookup.status === "empty_reached" ? "leer (erreicht)" : "nicht abgedeckt";
+}
+
+/**
+ * Build the engine input from the assess options
+ */
+function parsePatientInput(args: string[]): { input: PatientInput; bundleVersion: string; json: boolean } {
+  const { values } = parseArgs({
+    args: joinNegativeValues(args),
+    options: {
+      sex: { type: "string" },
+      age: { type: "string" },
+      tscore: { type: "string" },
+      rf: { type: "string", multiple: true },
+      postmenopausal: { type: "boolean" },
+      fracture: { type: "string", multiple: true },
+      falls: { type: "string" },
+      "gc-mg": { type: "string" },
+      "gc-months": { type: "string" },
+      "gc-recent": { type: "boolean" },
+      ci: { type: "string", multiple: true },
+      "renal-impaired": { type: "boolean" },
+      "recent-hip-surgery": { type: "boolean" },
+      bundle: { type: "string" },
+      date: { type: "string" },
+      json: { type: "boolean" },
+    },
+  });
+
+  if (values.sex !== "female" && values.sex !== "male") {
+    throw new UsageError("--sex muss female oder male sein");
+  }
+  const age = Number(values.age);
+  if (values.age === undefined || !Number.isFinite(age)) {
+    throw new UsageError("--age muss eine Zahl sein");
+  }
+  const tscore = values.tscore === undefined ? null : Number(values.tscore);
+  if (tscore !== null && !Number.isFinite(tscore)) {
+    throw new UsageError("--tscore muss eine Zahl sein");
+  }
+
+  const knownRfIds = new Set(getAllRiskFactors(loadRfCatalog()).map((rf) => rf.rf_id));
+  const rfIds = (values.rf ?? []).flatMap((value) => value.split(",")).map((id) => id.trim()).filter(Boolean);
+  const unknownRfIds = rfIds.filter((id) => !knownRfIds.has(id));
+  if (unknownRfIds.length > 0) {
+    throw new UsageError(`Unbekannte RF-ID(s): ${unknownRfIds.join(", ")} (siehe: osteopo rfs)`);
+  }
+  const megConflicts = findMegConflicts(rfIds, buildMegIndex(loadRfCatalog()));
+  if (megConflicts.length > 0) {
+    throw new UsageError(
+      `Sich gegenseitig ausschließende RF: ${megConflicts.map((ids) => ids.join(" / ")).join("; ")} (siehe: osteopo megs)`
+    );
+  }
+
+  const contraindications: ContraindicationContext = createEmptyContraindicationContext();
+  for (const key of values.ci ?? []) {
+    const flag = CONTRAINDICATION_FLAGS.find((f) => f.key === key);
+    if (!flag) {
+      throw new UsageError(`Unbekannte Kontraindikation: ${key}`);
+    }
+    contraindications[flag.key] = true;
+  }
+  if (values["renal-impaired"]) contraindications.renal_ok = false;
+
+  const events = createEmptyEventInput();
+  if (values.falls !== undefined) {
+    const falls = Number(values.falls);
+    if (!Number.isInteger(falls) || falls < 0) throw new UsageError("--falls muss eine ganze Zahl ≥ 0 sein");
+    events.falls_last_12m = falls;
+  }
+  for (const value of values.fracture ?? []) {
+    const [type, date] = value.split(":");
+    if (!fractureTypes().includes(type as FractureType) || !date || !isValidIsoDate(date)) {
+      throw new UsageError(`--fracture muss <${fractureTypes().join("|")}>:<JJJJ-MM-TT> sein: ${value}`);
+    }
+    events.fracture.push({ type: type as FractureType, date });
+  }
+  if (values["gc-mg"] !== undefined || values["gc-months"] !== undefined || values["gc-recent"]) {
+    if (values["gc-mg"] === undefined || values["gc-months"] === undefined) {
+      throw new UsageError("--gc-mg und --gc-months müssen zusammen angegeben werden");
+    }
+    events.oral_gc = {
+      pred_eq_mg_per_day: parseNonNegative(values["gc-mg"], "--gc-mg"),
+      duration_months: parseNonNegative(values["gc-months"], "--gc-months"),
+      started_or_dose_increased_within_last_12m: values["gc-recent"] ?? false,
+    };
+  }
+  if (values.date !== undefined && !isValidIsoDate(values.date)) {
+    throw new UsageError(`--date muss ein Datum JJJJ-MM-TT sein: ${values.date}`);
+  }
+
+  const bundleVersion = values.bundle ?? DEFAULT_BUNDLE_VERSION;
+  if (!getBundle(bundleVersion)) {
+    throw new UsageError(
+      `Unbekannte Tabellenversion: ${bundleVersion} (verfügbar: ${listBundles().map((b) => b.bundle_version).join(", ")})`
+    );
+  }
+
+  return {
+    input: {
+      sex: values.sex,
+      age,
+      tscoreTotalHip: tscore,
+      selectedRfIds: new Set(rfIds),
+      postmenopausal: values.postmenopausal ?? false,
+      contraindications,
+      hasRecentHipFractureSurgery: values["recent-hip-surgery"] ?? false,
+      events,
+      ...(values.date !== undefined ? { referenceDate: values.date } : {}),
+    },
+    bundleVersion,
+    json: values.json ?? false,
+  };
+}
+
+/**
+ * Machine-readable assessment summary (snake_case, stable field set)
+ */
+function assessmentToJson(result: AssessmentResult) {
+  const threshold = (t: ThresholdResult) => ({
+    age_bin: t.ageBin,
+    tscore_bin: t.tscoreMapping?.bin ?? null,
+    tscore_mapping: t.tscoreMapping?.reason ?? null,
+    lookup: t.lookup.status,
+    required_factor: t.requiredFactor,
+    reached: t.reached,
+    reason: t.reason,
+  });
+
+  return {
+    bundle_version: result.bundleVersion,
+    entry: { pathway: result.entry.pathway, lookup_age: result.entry.lookup_age, notices_de: result.entry.notices_de },
+    risk_band: result.band,
+    lookup_mode: result.usedBmd ? "WITH_BMD" : "WITHOUT_BMD",
+    multiplier: result.multiplier,
+    thresholds: {
+      "3%": threshold(result.thresholdDetails.threshold3),
+      "5%": threshold(result.thresholdDetails.threshold5),
+      "10%": threshold(result.thresholdDetails.threshold10),
+    },
+    chosen_rfs: result.top2Rfs.map(({ rf, poolSource }) => ({
+      rf_id: rf.rf_id,
+      label_de: rf.label_de,
+      rr_3y: rf.rr_3y,
+      pool_source: poolSource,
+    })),
+    discarded_rfs: result.discardedRfs.map(({ rf, reason }) => ({ rf_id: rf.rf_id, reason })),
+    triggers: {
+      imminent: result.triggers.imminent,
+      strong_irreversible_A: result.triggers.strongIrreversibleA,
+      trigger_present: result.triggers.triggerPresent,
+    },
+    recommendation: result.recommendation,
+    therapy_plan: result.therapyPlan,
+    ranked_substances: result.rankedSubstances.map((s) => ({
+      substance_id: s.substance_id,
+      label_de: getSubstanceLabel(s.substance_id),
+      evidence_level: s.evidence?.evidence_level ?? null,
+      efficacy: s.ui.efficacyHint,
+    })),
+    excluded_substances: result.excludedSubstances.map((s) => ({
+      substance_id: s.substance_id,
+      reason_de: s.ui.excludedReason ?? null,
+    })),
+    data_errors: result.dataErrors,
+  };
+}
+
+/**
+ * Human-readable German assessment report
+ */
+function formatAssessment(result: AssessmentResult): string {
+  const lines: string[] = [];
+  const thresholds: Array<[string, ThresholdResult]> = [
+    ["3%", result.thresholdDetails.threshold3],
+    ["5%", result.thresholdDetails.threshold5],
+    ["10%", result.thresholdDetails.threshold10],
+  ];
+
+  lines.push(`Risikoband: ${result.band}`);
+  lines.push(`Empfehlung: ${result.recommendation}`);
+  lines.push(`Zugangsweg: ${result.entry.label_de}`);
+  result.entry.notices_de.forEach((notice) => lines.push(`  ${notice}`));
+  lines.push(`Tabellenversion: ${getBundleLabel(result.bundleVersion)}`);
+  lines.push(`Berechnung: ${result.usedBmd ? "mit BMD" : "ohne BMD"}`);
+  if (result.tscoreMappingNote) lines.push(`  ${result.tscoreMappingNote}`);
+
+  lines.push("", "Gewählte Risikofaktoren (Top-2):");
+  if (result.top2Rfs.length === 0) lines.push("  keine");
+  result.top2Rfs.forEach(({ rf, poolSource }) =>
+    lines.push(`  - ${rf.label_de} (RR ${formatFactor(rf.rr_3y)}, ${poolSource})`)
+  );
+  result.discardedRfs.forEach(({ rf, reason_de }) => lines.push(`  verworfen: ${rf.label_de} – ${reason_de}`));
+  lines.push(`Kombinierter Multiplikator: ${formatFactor(result.multiplier)}`);
+
+  lines.push("", "Schwellen:");
+  for (const [label, t] of thresholds) {
+    lines.push(
+      `  ${label.padEnd(4)} Altersreihe ${t.ageBin ?? "–"}, ` +
+      `Spalte ${t.tscoreMapping ? t.tscoreMapping.bin.toFixed(1) : "ohne BMD"}, ` +
+      `benötigt ${formatCell(t)} → ${t.reached ? "erreicht" : "nicht erreicht"}`
+    );
+  }
+  result.dataErrors.forEach((error) => lines.push(`  Datenfehler: ${error}`));
+
+  lines.push("", `Trigger: ${result.triggers.triggerPresent ? "Ja" : "Nein"}`);
+  // Event-derived RFs are already covered by the event reasons
+  const eventRfIds = new Set(result.eventRfIds);
+  result.triggers.imminentRfs
+    .filter((rf) => !eventRfIds.has(rf.rf_id))
+    .forEach((rf) => lines.push(`  - Imminentes Risiko: ${rf.label_de}`));
+  result.triggers.imminentFromEvents.reasons_de.forEach((reason) => lines.push(`  - Imminentes Risiko: ${reason}`));
+  result.triggers.strongIrreversibleARfs.forEach((rf) => lines.push(`  - Starker/irreversibler RF: ${rf.label_de}`));
+
+  lines.push("", `Therapie: ${result.therapyPlan.label_de}`);
+  if (result.therapyPlan.sequence_hint) lines.push(`  ${result.therapyPlan.sequence_hint}`);
+  result.therapyPlan.secondary_considerations.forEach((c) => lines.push(`  Zusätzlich erwägen: ${c.why_de}`));
+  result.therapyPlan.special_notes.forEach((note) => lines.push(`  Hinweis: ${note}`));
+
+  if (result.rankedSubstances.length > 0) {
+    lines.push("", "Substanzen (nach Evidenz):");
+    result.rankedSubstances.forEach((s, index) =>
+      lines.push(`  ${index + 1}. ${getSubstanceLabel(s.substance_id)} – ${s.ui.evidenceChip}, ${s.ui.efficacyHint}`)
+    );
+  }
+  result.excludedSubstances.forEach((s) =>
+    lines.push(`  ausgeschlossen: ${getSubstanceLabel(s.substance_id)} – ${s.ui.excludedReason ?? ""}`)
+  );
+
+  return lines.join("\n");
+}
+
+function runAssess(args: string[]): number {
+  const { input, bundleVersion, json } = parsePatientInput(args);
+  const result = assessPatient(input, getBundle(bundleVersion)!);
+
+  if (!result) {
+    const message = "Eingabe außerhalb des Gültigkeitsbereichs (Alter < 50 ohne Frakturzugang oder T-Score > 0,0)";
+    console.log(json ? JSON.stringify({ in_scope: false, message }, null, 2) : message);
+    return 1;
+  }
+
+  console.log(json ? JSON.stringify(assessmentToJson(result), null, 2) : formatAssessment(result));
+  return 0;
+}
+
+function runListRfs(json: boolean): number {
+  const rfs = getAllRiskFactors(loadRfCatalog());
+  if (json) {
+    console.log(JSON.stringify(rfs, null, 2));
+    return 0;
+  }
+  for (const rf of rfs) {
+    const rr = rf.included_in_risk_calc ? `RR ${formatFactor(rf.rr_3y)}` : "nur Trigger/Hinweis";
+    const meg = rf.mutual_exclusion_group_id ? `, ${rf.mutual_exclusion_group_id}` : "";
+    console.log(`${rf.rf_id.padEnd(40)} ${rf.group.padEnd(9)} ${rr}${meg}  ${rf.label_de}`);
+  }
+  return 0;
+}
+
+function runListMegs(json: boolean): number {
+  const catalog = loadRfCatalog();
+  const megIndex = buildMegIndex(catalog);
+  const megs = Array.from(megIndex.megToRfs, ([id, { rfIds, mode }]) => ({
+    id,
+    label_de: catalog.meta?.mutual_exclusion_groups?.find((meg) => meg.id === id)?.label_de ?? id,
+    mode,
+    rf_ids: rfIds,
+  }));
+  if (json) {
+    console.log(JSON.stringify(megs, null, 2));
+    return 0;
+  }
+  for (const meg of megs) {
+    console.log(`${meg.id} (${meg.mode}): ${meg.label_de}`);
+    meg.rf_ids.forEach((rfId) => console.log(`  - ${rfId}`));
+  }
+  return 0;
+}
+
+function runListSubstances(json: boolean): number {
+  const substances = loadSubstanceRegistry().substances.map((s) => ({
+    ...s,
+    evidence_level: getEvidenceFor(s.substance_id)?.evidence_level ?? null,
+  }));
+  if (json) {
+    console.log(JSON.stringify(substances, null, 2));
+    return 0;
+  }
+  for (const s of substances) {
+    const status = s.active ? "" : " (inaktiv)";
+    console.log(
+      `${s.substance_id.padEnd(24)} ${s.therapy_class.padEnd(15)} Evidenz ${s.evidence_level ?? "–"}  ${s.label_de}${status}`
+    );
+  }
+  return 0;
+}
+
+/**
+ * Dispatch a subcommand
+ *
+ * @param argv - Arguments after the script name
+ * @returns Process exit code (0 ok, 1 out of scope, 2 usage error, 3 invalid context data)
+ */
+export function runCli(argv: string[]): number {
+  const [command, ...args] = argv;
+  const json = args.includes("--json");
+
+  const dataIssues = validateContextData();
+  if (dataIssues.length > 0) {
+    console.error("Datenfehler – die Leitliniendaten entsprechen nicht dem erwarteten Format, keine Berechnung:");
+    dataIssues.forEach((issue) => console.error(`  ${issue.file} › ${issue.path}: ${issue.message}`));
+    return 3;
+  }
+
+  try {
+    switch (command) {
+      case "assess":
+        return runAssess(args);
+      case "rfs":
+        return runListRfs(json);
+      case "megs":
+        return runListMegs(json);
+      case "substances":
+        return runListSubstances(json);
+      case undefined:
+      case "help":
+      case "--help":
+        console.log(USAGE);
+        return 0;
+      default:
+        throw new UsageError(`Unbekannter Befehl: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError || (error instanceof TypeError && "code" in error)) {
+      console.error(`Fehler: ${error.message}\nHilfe: osteopo help`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+// Run if executed directly
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  process.exit(runCli(process.argv.slice(2)));
+}
@@ -0,0 +1,328 @@
+/**
+ * E2E Conformance Runner
+ *
+ * Executes every end-to-end case block in context/ (DVO_E2E_Cases_*.json)
+ * through the risk and therapy engine and reports each deviating field
+ * as a structured diff.
+ *
+ * Compared fields (when present in a case):
+ * - inputs.rr_selected          vs. RF catalog rr_3y
+ * - computed.age_bin, lookup_mode, tscore_mapped, multiplier, required_factor, risk_band
+ * - expected.risk_band, therapy_level1, therapy_level2, transparency (T-score mapping line)
+ *
+ * Cases without inputs.reference_date are assessed at the block's
+ * meta.created_date (else DEFAULT_REFERENCE_DATE), never at today's date,
+ * so 12-month rules give the same result on every run.
+ *
+ * Run with: npx tsx scripts/run-e2e-cases.ts [--json]
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { assessPatient } from '../src/data/assessment';
+import { loadRfCatalog, getAllRiskFactors } from '../src/data/rfCatalog';
+import { getRegistryEntry } from '../src/data/substanceRegistry';
+import type { AssessmentResult, EventInput, Sex, TherapyStrategy } from '../src/data/types';
+
+const CONTEXT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'context');
+const CASE_FILE_PATTERN = /^DVO_E2E_Cases_.*\.json$/;
+const EPSILON = 1e-9;
+const DEFAULT_REFERENCE_DATE = "2026-01-01";
+
+type ThresholdKey = "3%" | "5%" | "10%";
+const THRESHOLDS: Array<{ key: ThresholdKey; percent: 3 | 5 | 10 }> = [
+  { key: "3%", percent: 3 },
+  { key: "5%", percent: 5 },
+  { key: "10%", percent: 10 },
+];
+
+interface E2ECase {
+  case_id: string;
+  title?: string;
+  inputs: {
+    sex: Sex;
+    age_years: number;
+    rf_selected: string[];
+    rr_selected?: number[];
+    events?: Partial<EventInput>;
+    reference_date?: string;
+    dxa?: { tscore_total_hip: number | null };
+  };
+  computed?: {
+    age_bin?: number | Partial<Record<ThresholdKey, number>>;   // single value applies to every table
+    lookup_mode?: "WITH_BMD" | "WITHOUT_BMD";
+    tscore_mapped?: Partial<Record<ThresholdKey, string>>;
+    multiplier?: number;
+    required_factor?: Partial<Record<ThresholdKey, number | null>>;
+    risk_band?: string;
+  };
+  expected?: {
+    risk_band?: string;
+    therapy_level1?: string;
+    therapy_level2?: string | {
+      default_guidance?: string;
+      class?: string;
+      options?: string[];
+      deviation_note?: string;
+    };
+    transparency?: string[];
+    [key: string]: unknown;
+  };
+}
+
+interface E2ECaseFile {
+  meta?: { name?: string; version?: string; created_date?: string };
+  cases: E2ECase[];
+}
+
+export interface FieldDiff {
+  file: string;
+  case_id: string;
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface ConformanceReport {
+  files: string[];
+  cases_run: number;
+  cases_failed: number;
+  diffs: FieldDiff[];
+}
+
+/**
+ * Level-1 therapy labels used in the case files
+ */
+const LEVEL1_BY_STRATEGY: Record<TherapyStrategy, string> = {
+  none: "no_specific_drug",
+  consider_antiresorptive: "consider_medication",
+  antiresorptive: "antiresorptive",
+  osteoanabolic_start: "osteoanabolic",
+};
+
+/**
+ * Extract the leading machine token from annotated strings,
+ * e.g. "3–<5% (1.3 ≥ 1.2, aber < 1.5)" → "3–<5%"
+ */
+function leadingToken(value: string): string {
+  return value.trim().split(/\s+/)[0];
+}
+
+function numbersEqual(a: number | null | undefined, b: number | null | undefined): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return a === b;
+  }
+  return Math.abs(a - b) < EPSILON;
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join('|') === [...b].sort().join('|');
+}
+
+/**
+ * Run a single case and collect all deviating fields
+ * Cases without inputs.reference_date are assessed at defaultReferenceDate.
+ */
+export function runCase(
+  testCase: E2ECase,
+  file: string,
+  defaultReferenceDate: string = DEFAULT_REFERENCE_DATE
+): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+  const diff = (field: string, expected: unknown, actual: unknown) => {
+    diffs.push({ file, case_id: testCase.case_id, field, expected, actual });
+  };
+
+  const { inputs, computed = {}, expected = {} } = testCase;
+  const tscore = inputs.dxa?.tscore_total_hip ?? null;
+
+  // Catalog RRs referenced by the case
+  const allRfs = getAllRiskFactors(loadRfCatalog());
+  inputs.rf_selected.forEach((rfId, i) => {
+    const rf = allRfs.find((r) => r.rf_id === rfId);
+    if (!rf) {
+      diff(`inputs.rf_selected[${i}]`, rfId, null);
+      return;
+    }
+    const expectedRr = inputs.rr_selected?.[i];
+    if (expectedRr !== undefined && !numbersEqual(expectedRr, rf.rr_3y)) {
+      diff(`inputs.rr_selected[${i}]`, expectedRr, rf.rr_3y);
+    }
+  });
+
+  const result: AssessmentResult | null = assessPatient({
+    sex: inputs.sex,
+    age: inputs.age_years,
+    tscoreTotalHip: tscore,
+    selectedRfIds: new Set(inputs.rf_selected),
+    events: {
+      fracture: inputs.events?.fracture ?? [],
+      falls_last_12m: inputs.events?.falls_last_12m ?? null,
+      oral_gc: inputs.events?.oral_gc ?? null,
+    },
+    referenceDate: inputs.reference_date ?? defaultReferenceDate,
+  });
+
+  if (!result) {
+    diff('result', 'assessment result', null);
+    return diffs;
+  }
+
+  // Computed intermediates
+  if (computed.age_bin !== undefined) {
+    const actualAgeBins: Record<ThresholdKey, number | null> = {
+      "3%": result.thresholdDetails.threshold3.ageBin,
+      "5%": result.thresholdDetails.threshold5.ageBin,
+      "10%": result.thresholdDetails.threshold10.ageBin,
+    };
+    for (const { key } of THRESHOLDS) {
+      const expectedAgeBin = typeof computed.age_bin === "number" ? computed.age_bin : computed.age_bin[key];
+      if (expectedAgeBin !== undefined && expectedAgeBin !== actualAgeBins[key]) {
+        diff(`computed.age_bin.${key}`, expectedAgeBin, actualAgeBins[key]);
+      }
+    }
+  }
+
+  const lookupMode = result.usedBmd ? "WITH_BMD" : "WITHOUT_BMD";
+  if (computed.lookup_mode !== undefined && computed.lookup_mode !== lookupMode) {
+    diff('computed.lookup_mode', computed.lookup_mode, lookupMode);
+  }
+
+  if (computed.tscore_mapped && tscore !== null) {
+    const mapped: Record<ThresholdKey, string | null> = {
+      "3%": result.thresholdDetails.threshold3.tscoreMapping?.bin.toFixed(1) ?? null,
+      "5%": result.thresholdDetails.threshold5.tscoreMapping?.bin.toFixed(1) ?? null,
+      "10%": result.thresholdDetails.threshold10.tscoreMapping?.bin.toFixed(1) ?? null,
+    };
+    for (const { key } of THRESHOLDS) {
+      const expectedBin = computed.tscore_mapped[key];
+      if (expectedBin !== undefined && expectedBin !== mapped[key]) {
+        diff(`computed.tscore_mapped.${key}`, expectedBin, mapped[key]);
+      }
+    }
+  }
+
+  if (computed.multiplier !== undefined && !numbersEqual(computed.multiplier, result.multiplier)) {
+    diff('computed.multiplier', computed.multiplier, result.multiplier);
+  }
+
+  if (computed.required_factor) {
+    const actualFactors: Record<ThresholdKey, number | null> = {
+      "3%": result.thresholdDetails.threshold3.requiredFactor,
+      "5%": result.thresholdDetails.threshold5.requiredFactor,
+      "10%": result.thresholdDetails.threshold10.requiredFactor,
+    };
+    for (const { key } of THRESHOLDS) {
+      const expectedFactor = computed.required_factor[key];
+      if (expectedFactor !== undefined && !numbersEqual(expectedFactor, actualFactors[key])) {
+        diff(`computed.required_factor.${key}`, expectedFactor, actualFactors[key]);
+      }
+    }
+  }
+
+  // Uncovered table cells are data errors, never expected in a conformance case
+  if (result.dataErrors.length > 0) {
+    diff('data_errors', [], result.dataErrors);
+  }
+
+  // Risk band (may be given in computed or expected)
+  const expectedBand = computed.risk_band ?? expected.risk_band;
+  if (expectedBand !== undefined && leadingToken(expectedBand) !== result.band) {
+    diff(computed.risk_band !== undefined ? 'computed.risk_band' : 'expected.risk_band', leadingToken(expectedBand), result.band);
+  }
+
+  // Therapy level 1 (strategy)
+  const level1 = LEVEL1_BY_STRATEGY[result.therapyPlan.strategy];
+  if (expected.therapy_level1 !== undefined && leadingToken(expected.therapy_level1) !== level1) {
+    diff('expected.therapy_level1', leadingToken(expected.therapy_level1), level1);
+  }
+
+  // Therapy level 2 (substance options)
+  const options = result.rankedSubstances.map((s) => s.substance_id);
+  // Only the T-score mapping line of the transparency texts is produced by the engine
+  const expectedMappingNote = expected.transparency?.find((text) => text.startsWith("T-Score"));
+  if (expectedMappingNote !== undefined && expectedMappingNote !== result.tscoreMappingNote) {
+    diff('expected.transparency (T-Score)', expectedMappingNote, result.tscoreMappingNote);
+  }
+
+  const level2 = expected.therapy_level2;
+  if (typeof level2 === "string") {
+    if (leadingToken(level2) === "none" && options.length > 0) {
+      diff('expected.therapy_level2', 'none', options);
+    }
+  } else if (level2 !== undefined) {
+    if (level2.default_guidance !== undefined && level2.default_guidance !== result.therapyPlan.guideline_default) {
+      diff('expected.therapy_level2.default_guidance', level2.default_guidance, result.therapyPlan.guideline_default);
+    }
+    if (level2.class !== undefined) {
+      const classes = Array.from(new Set(options.map((id) => getRegistryEntry(id)?.therapy_class ?? null)));
+      if (classes.length !== 1 || classes[0] !== level2.class) {
+        diff('expected.therapy_level2.class', level2.class, classes);
+      }
+    }
+    if (level2.options !== undefined && !sameMembers(level2.options, options)) {
+      diff('expected.therapy_level2.options', level2.options, options);
+    }
+    if (level2.deviation_note !== undefined && !result.therapyPlan.deviation_flag) {
+      diff('expected.therapy_level2.deviation_note', level2.deviation_note, null);
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Load and run all case files in context/
+ */
+export function runConformance(contextDir: string = CONTEXT_DIR): ConformanceReport {
+  const files = readdirSync(contextDir).filter((name) => CASE_FILE_PATTERN.test(name)).sort();
+  const report: ConformanceReport = { files, cases_run: 0, cases_failed: 0, diffs: [] };
+
+  for (const file of files) {
+    const caseFile = JSON.parse(readFileSync(join(contextDir, file), 'utf-8')) as E2ECaseFile;
+    const referenceDate = caseFile.meta?.created_date ?? DEFAULT_REFERENCE_DATE;
+    for (const testCase of caseFile.cases) {
+      const diffs = runCase(testCase, file, referenceDate);
+      report.cases_run++;
+      if (diffs.length > 0) {
+        report.cases_failed++;
+        report.diffs.push(...diffs);
+      }
+    }
+  }
+
+  return report;
+}
+
+// Main execution
+function main() {
+  const asJson = process.argv.includes('--json');
+  const report = runConformance();
+
+  if (asJson) {
+    console.log(JSON.stringify(report, null, 2));
+    process.exit(report.cases_failed > 0 ? 1 : 0);
+  }
+
+  console.log(`Running E2E cases from ${report.files.length} file(s)...\n`);
+
+  if (report.diffs.length === 0) {
+    console.log(`✓ All ${report.cases_run} case(s) passed!`);
+    process.exit(0);
+  }
+
+  console.error('✗ DEVIATIONS found:');
+  report.diffs.forEach((d) => {
+    console.error(
+      `  - ${d.file} ${d.case_id} ${d.field}: expected ${JSON.stringify(d.expected)}, got ${JSON.stringify(d.actual)}`
+    );
+  });
+  console.error(`\n✗ ${report.cases_failed} of ${report.cases_run} case(s) failed`);
+  process.exit(1);
+}
+
+// Run if executed directly
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
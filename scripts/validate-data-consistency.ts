@@ -1,21 +1,204 @@
 /**
  * Data Consistency Validation Script
- * 
+ *
  * Validates consistency between:
  * - Substance Registry (master reference)
  * - Evidence Table
  * - Administration Metadata
- * 
- * Run with: npx tsx scripts/validate-data-consistency.ts
+ * - RF Catalog (groups, rr_3y, MEG declarations, source_refs)
+ * - Threshold Tables (age × T-score grid coverage, per registered bundle)
+ * - FHIR Code Map (RF and substance IDs)
+ *
+ * Schema validation of all context/ files runs first (see src/data/schemaValidation.ts).
+ *
+ * Run with: npx tsx scripts/validate-data-consistency.ts [--json]
  */
 
-import { loadSubstanceRegistry, getAllSubstanceIds, getRegistryEntry } from '../src/data/substanceRegistry';
+import { pathToFileURL } from 'node:url';
+import { getAllSubstanceIds, getRegistryEntry } from '../src/data/substanceRegistry';
 import { loadEvidenceTable } from '../src/data/evidenceTable';
 import { loadSubstanceMetadata } from '../src/data/substanceMetadata';
+import { loadRfCatalog } from '../src/data/rfCatalog';
+import { listBundles } from '../src/data/bundleRegistry';
+import { getAvailableAgeBins, getAvailableTscoreBins } from '../src/data/lookup';
+import { validateContextData } from '../src/data/schemaValidation';
+import { loadFhirCodeMap } from '../src/data/fhirCodeMap';
+import type { DVOBundle, RfCatalog } from '../src/data/types';
+
+export interface ConsistencyIssue {
+  check: string;   // e.g. "rf_catalog.meg_declared"
+  source: string;  // data source the issue was found in
+  message: string;
+}
 
 interface ValidationResult {
-  errors: string[];
-  warnings: string[];
+  errors: ConsistencyIssue[];
+  warnings: ConsistencyIssue[];
+}
+
+const RF_CATALOG_SOURCE = 'RF Catalog';
+const LEGAL_RF_GROUPS = ["G1_STURZ", "G2_RA_GC", "G3_OTHER"];
+const AGE_STEP = 5;
+const TSCORE_STEP = 0.5;
+
+/**
+ * Known source_ref prefixes and how they resolve to a declared source document
+ * (matched against meta.source_documents of the same file)
+ */
+const SOURCE_REF_PREFIXES: Array<{ prefix: string; matches: (doc: { title?: string; file?: string }) => boolean }> = [
+  { prefix: "DVO2023_Kurz_", matches: (doc) => doc.title?.includes("Kurzfassung") ?? false },
+  { prefix: "DVO2023_Lang_", matches: (doc) => doc.title?.includes("Langfassung") ?? false },
+  { prefix: "DVO_therapy_engine_v1", matches: (doc) => doc.file === "DVO_therapy_engine_pseudocode_v1.txt" },
+];
+
+/**
+ * Check if a source_ref resolves to one of the declared source documents
+ */
+function sourceRefResolves(
+  sourceRef: string,
+  sourceDocuments: Array<{ title?: string; file?: string }>
+): boolean {
+  const prefix = SOURCE_REF_PREFIXES.find((p) => sourceRef.startsWith(p.prefix));
+  return prefix !== undefined && sourceDocuments.some(prefix.matches);
+}
+
+/**
+ * RF catalog checks: legal groups, numeric rr_3y for calculation RFs,
+ * declared MEGs and resolvable source_refs
+ */
+function validateRfCatalogConsistency(catalog: RfCatalog, result: ValidationResult): void {
+  const declaredMegs = new Set((catalog.meta?.mutual_exclusion_groups ?? []).map((meg) => meg.id));
+  const usedMegs = new Set<string>();
+  const sourceDocuments = catalog.meta?.source_documents ?? [];
+  const seenIds = new Set<string>();
+
+  catalog.risk_factors.forEach((rf) => {
+    if (seenIds.has(rf.rf_id)) {
+      result.errors.push({ check: 'rf_catalog.unique_id', source: RF_CATALOG_SOURCE, message: `rf_id "${rf.rf_id}" is not unique` });
+    }
+    seenIds.add(rf.rf_id);
+
+    if (!LEGAL_RF_GROUPS.includes(rf.group)) {
+      result.errors.push({
+        check: 'rf_catalog.group',
+        source: RF_CATALOG_SOURCE,
+        message: `"${rf.rf_id}": illegal group "${rf.group}" (allowed: ${LEGAL_RF_GROUPS.join(', ')})`,
+      });
+    }
+
+    if (rf.included_in_risk_calc && (typeof rf.rr_3y !== 'number' || !Number.isFinite(rf.rr_3y))) {
+      result.errors.push({
+        check: 'rf_catalog.rr_3y_numeric',
+        source: RF_CATALOG_SOURCE,
+        message: `"${rf.rf_id}": included_in_risk_calc but rr_3y is ${JSON.stringify(rf.rr_3y)}`,
+      });
+    }
+
+    if (rf.mutual_exclusion_group_id) {
+      usedMegs.add(rf.mutual_exclusion_group_id);
+      if (!declaredMegs.has(rf.mutual_exclusion_group_id)) {
+        result.errors.push({
+          check: 'rf_catalog.meg_declared',
+          source: RF_CATALOG_SOURCE,
+          message: `"${rf.rf_id}": mutual_exclusion_group_id "${rf.mutual_exclusion_group_id}" not declared in meta.mutual_exclusion_groups`,
+        });
+      }
+    }
+
+    if (rf.source_ref && !sourceRefResolves(rf.source_ref, sourceDocuments)) {
+      result.errors.push({
+        check: 'rf_catalog.source_ref',
+        source: RF_CATALOG_SOURCE,
+        message: `"${rf.rf_id}": source_ref "${rf.source_ref}" does not resolve to a document in meta.source_documents`,
+      });
+    }
+  });
+
+  // Declared but unused MEGs (warning only)
+  declaredMegs.forEach((megId) => {
+    if (!usedMegs.has(megId)) {
+      result.warnings.push({
+        check: 'rf_catalog.meg_used',
+        source: RF_CATALOG_SOURCE,
+        message: `MEG "${megId}" is declared but not used by any RF`,
+      });
+    }
+  });
+}
+
+/**
+ * Threshold table checks: every table covers the age × T-score grid it claims
+ * - age rows in 5-year steps from the youngest to the oldest row, none missing
+ * - T-score bins in 0.5 steps from 0.0 to the worst bin of the table
+ * - no duplicate cells
+ * - each row starts at the best bin and has no gaps (empty cells only at the
+ *   end of a row, i.e. "threshold already reached")
+ * - the source document is the one named in README.source_of_truth
+ */
+function validateThresholdTables(bundle: DVOBundle, file: string, result: ValidationResult): void {
+  const error = (message: string) => result.errors.push({ check: 'threshold_tables.grid', source: file, message });
+
+  bundle.tables.forEach((table) => {
+    const name = `${table.sex} ${table.threshold_percent}%`;
+    const ageBins = getAvailableAgeBins(table);
+    const tscoreBins = getAvailableTscoreBins(table);
+
+    if (ageBins.length === 0 || tscoreBins.length === 0) {
+      error(`${name}: table has no entries`);
+      return;
+    }
+
+    for (let age = ageBins[0]; age <= ageBins[ageBins.length - 1]; age += AGE_STEP) {
+      if (!ageBins.includes(age)) {
+        error(`${name}: age row ${age} missing (table claims ${ageBins[0]}–${ageBins[ageBins.length - 1]})`);
+      }
+    }
+
+    if (tscoreBins[0] !== 0) {
+      error(`${name}: best T-score bin is ${tscoreBins[0].toFixed(1)}, expected 0.0`);
+    }
+    const worstBin = tscoreBins[tscoreBins.length - 1];
+    for (let bin = 0; bin >= worstBin - 1e-9; bin -= TSCORE_STEP) {
+      if (!tscoreBins.some((b) => Math.abs(b - bin) < 1e-9)) {
+        error(`${name}: T-score column ${bin.toFixed(1)} missing (table claims 0.0 to ${worstBin.toFixed(1)})`);
+      }
+    }
+
+    const seenCells = new Set<string>();
+    table.entries.forEach((entry) => {
+      const key = `${entry.age}|${entry.tscore}`;
+      if (seenCells.has(key)) {
+        error(`${name}: duplicate cell (age ${entry.age}, T-score ${entry.tscore})`);
+      }
+      seenCells.add(key);
+    });
+
+    ageBins.forEach((age) => {
+      const rowBins = tscoreBins.filter((bin) => seenCells.has(`${age}|${bin.toFixed(1)}`));
+      const lastIndex = rowBins.length > 0 ? tscoreBins.indexOf(rowBins[rowBins.length - 1]) : -1;
+      tscoreBins.slice(0, lastIndex + 1).forEach((bin) => {
+        if (!rowBins.includes(bin)) {
+          error(`${name}: gap at age ${age}, T-score ${bin.toFixed(1)} (worse bins of this row have values)`);
+        }
+      });
+      if (rowBins.length === 0) {
+        result.warnings.push({
+          check: 'threshold_tables.grid',
+          source: file,
+          message: `${name}: age row ${age} has no T-score values (only no_bmd)`,
+        });
+      }
+    });
+
+    const sourceOfTruth = bundle.README?.source_of_truth;
+    if (table.source && sourceOfTruth && !sourceOfTruth.includes(table.source.document)) {
+      result.errors.push({
+        check: 'threshold_tables.source',
+        source: file,
+        message: `${name}: source document "${table.source.document}" does not match README.source_of_truth`,
+      });
+    }
+  });
 }
 
 function validateConsistency(): ValidationResult {
@@ -24,8 +207,15 @@ function validateConsistency(): ValidationResult {
     warnings: [],
   };
 
+  // 0. Schema validation first; consistency checks assume well-formed data
+  validateContextData().forEach((issue) => {
+    result.errors.push({ check: 'schema', source: issue.file, message: `${issue.path}: ${issue.message}` });
+  });
+  if (result.errors.length > 0) {
+    return result;
+  }
+
   // Load all data sources
-  const registry = loadSubstanceRegistry();
   const evidenceTable = loadEvidenceTable();
   const metadataTable = loadSubstanceMetadata();
 
@@ -36,14 +226,14 @@ function validateConsistency(): ValidationResult {
   // 1. Check: All evidence table substances exist in registry
   evidenceIds.forEach((id) => {
     if (!registryIds.has(id)) {
-      result.errors.push(`Evidence Table: substance_id "${id}" not found in Registry`);
+      result.errors.push({ check: 'substances.evidence_in_registry', source: 'Evidence Table', message: `substance_id "${id}" not found in Registry` });
     }
   });
 
   // 2. Check: All metadata substances exist in registry
   metadataIds.forEach((id) => {
     if (!registryIds.has(id)) {
-      result.errors.push(`Administration Metadata: substance_id "${id}" not found in Registry`);
+      result.errors.push({ check: 'substances.metadata_in_registry', source: 'Administration Metadata', message: `substance_id "${id}" not found in Registry` });
     }
   });
 
@@ -55,10 +245,13 @@ function validateConsistency(): ValidationResult {
     const registryEntry = getRegistryEntry(entry.substance_id);
     if (registryEntry) {
       if (entry.label_de !== registryEntry.label_de) {
-        result.warnings.push(
-          `Evidence Table: label_de mismatch for "${entry.substance_id}" ` +
-          `(Evidence: "${entry.label_de}", Registry: "${registryEntry.label_de}")`
-        );
+        result.warnings.push({
+          check: 'substances.label_de',
+          source: 'Evidence Table',
+          message:
+            `label_de mismatch for "${entry.substance_id}" ` +
+            `(Evidence: "${entry.label_de}", Registry: "${registryEntry.label_de}")`,
+        });
       }
     }
   });
@@ -66,30 +259,69 @@ function validateConsistency(): ValidationResult {
   // 5. Check: Registry substances not in Evidence Table (warning only)
   registryIds.forEach((id) => {
     if (!evidenceIds.has(id)) {
-      result.warnings.push(
-        `Registry: substance_id "${id}" exists in Registry but not in Evidence Table`
-      );
+      result.warnings.push({ check: 'substances.registry_in_evidence', source: 'Registry', message: `substance_id "${id}" exists in Registry but not in Evidence Table` });
     }
   });
 
   // 6. Check: Registry substances not in Metadata (warning only)
   registryIds.forEach((id) => {
     if (!metadataIds.has(id)) {
-      result.warnings.push(
-        `Registry: substance_id "${id}" exists in Registry but not in Administration Metadata`
-      );
+      result.warnings.push({ check: 'substances.registry_in_metadata', source: 'Registry', message: `substance_id "${id}" exists in Registry but not in Administration Metadata` });
+    }
+  });
+
+  // 7. Check: Evidence source_refs resolve to declared source documents
+  const evidenceDocuments = evidenceTable.meta?.source_documents ?? [];
+  evidenceTable.substances.forEach((entry) => {
+    entry.source_refs.forEach((ref) => {
+      if (!sourceRefResolves(ref, evidenceDocuments)) {
+        result.errors.push({
+          check: 'evidence.source_ref',
+          source: 'Evidence Table',
+          message: `"${entry.substance_id}": source_ref "${ref}" does not resolve to a document in meta.source_documents`,
+        });
+      }
+    });
+  });
+
+  // 8. RF catalog
+  validateRfCatalogConsistency(loadRfCatalog(), result);
+
+  // 9. Threshold tables (every registered bundle)
+  listBundles().forEach((entry) => validateThresholdTables(entry.bundle, entry.file, result));
+
+  // 10. FHIR code map references known RFs and substances
+  const fhirCodeMap = loadFhirCodeMap();
+  const rfIds = new Set(loadRfCatalog().risk_factors.map((rf) => rf.rf_id));
+  fhirCodeMap.rf_codes.forEach((mapping) => {
+    if (!rfIds.has(mapping.rf_id)) {
+      result.errors.push({ check: 'fhir_code_map.rf_id', source: 'FHIR Code Map', message: `rf_id "${mapping.rf_id}" not found in RF catalog` });
+    }
+  });
+  fhirCodeMap.substance_codes.forEach((mapping) => {
+    if (!registryIds.has(mapping.substance_id)) {
+      result.errors.push({ check: 'fhir_code_map.substance_id', source: 'FHIR Code Map', message: `substance_id "${mapping.substance_id}" not found in Registry` });
     }
   });
 
   return result;
 }
 
+function formatIssue(issue: ConsistencyIssue): string {
+  return `[${issue.check}] ${issue.source}: ${issue.message}`;
+}
+
 // Main execution
 function main() {
-  console.log('Validating data consistency...\n');
-
   const result = validateConsistency();
 
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(result, null, 2));
+    process.exit(result.errors.length > 0 ? 1 : 0);
+  }
+
+  console.log('Validating data consistency...\n');
+
   if (result.errors.length === 0 && result.warnings.length === 0) {
     console.log('✓ All validations passed!');
     process.exit(0);
@@ -98,7 +330,7 @@ function main() {
   if (result.errors.length > 0) {
     console.error('✗ ERRORS found:');
     result.errors.forEach((error) => {
-      console.error(`  - ${error}`);
+      console.error(`  - ${formatIssue(error)}`);
     });
     console.error('');
   }
@@ -106,7 +338,7 @@ function main() {
   if (result.warnings.length > 0) {
     console.warn('⚠ WARNINGS:');
     result.warnings.forEach((warning) => {
-      console.warn(`  - ${warning}`);
+      console.warn(`  - ${formatIssue(warning)}`);
     });
     console.warn('');
   }
@@ -121,9 +353,8 @@ function main() {
 }
 
 // Run if executed directly
-if (require.main === module) {
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
   main();
 }
 
 export { validateConsistency };
-
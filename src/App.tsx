@@ -1,27 +1,37 @@
-import { createSignal, createMemo } from 'solid-js';
-import {
-  loadBundle,
-  ageBin,
-  lookupNoBmdCell,
-  lookupCell,
-  getAvailableTscoreBins,
-  mapTscoreToBin,
-  thresholdReachedFromLookup,
-  highestReachedBand,
-} from './data/lookup';
+import { createSignal, createMemo, createEffect } from 'solid-js';
 import { loadRfCatalog, getRiskFactorsForCalculation, buildMegIndex, enforceMegRules, getAllRiskFactors } from './data/rfCatalog';
+import { assessPatient, compareBundleVersions } from './data/assessment';
+import { DEFAULT_BUNDLE_VERSION, getBundle, getBundleLabel, getDefaultBundle, listBundles } from './data/bundleRegistry';
+import { serializeDecisionTrace } from './data/decisionTrace';
+import { formatRequiredFactor, formatTscoreColumn } from './data/lookup';
+import { assessEntryPathway } from './data/entryPathway';
+import { decodePermalink, encodePermalink } from './data/permalink';
+import { getSavedCaseBundleVersion } from './data/savedCases';
+import { createEmptyContraindicationContext } from './data/contraindications';
 import {
-  selectTop2RiskFactors,
-  computeCombinedMultiplier,
-  isThresholdReached,
-} from './data/rfSelection';
-import { deriveTherapyPlan, getCandidateSubstances } from './data/therapy';
-import { rankSubstancesByEvidence } from './data/substanceRanking';
+  createEmptyEventInput,
+  deriveEventRiskFactorIds,
+  mergeEventRiskFactors,
+  todayIsoDate,
+} from './data/events';
 import { getMetadataFor, getRegimenText, getApprovalHint } from './data/substanceMetadata';
-import type { ThresholdTable, RiskFactor, RiskBand } from './data/types';
+import { getSubstanceLabel } from './data/substanceRegistry';
+import type { ContraindicationContext, EventInput, FhirImportResult, GdtPatientRequest, PatientInput, RiskFactor, SavedCase } from './data/types';
 import { RiskFactorGroup } from './components/RiskFactorGroup';
 import { InputSection } from './components/InputSection';
+import { EventSection } from './components/EventSection';
+import { BatchAssessment } from './components/BatchAssessment';
+import { ShareLink } from './components/ShareLink';
+import { BefundText } from './components/BefundText';
+import { CaseStorage } from './components/CaseStorage';
+import { GdtExchange } from './components/GdtExchange';
+import { FhirExchange } from './components/FhirExchange';
+import { BmpExport } from './components/BmpExport';
+import { ClinicalReport } from './components/ClinicalReport';
 import { logger } from './utils/logger';
+import { downloadTextFile } from './utils/download';
+import { getStorageMode, setStorageMode as persistStorageMode } from './utils/caseStorage';
+import type { StorageMode } from './utils/caseStorage';
 
 type Sex = 'female' | 'male' | null;
 
@@ -40,15 +50,42 @@ export default function App() {
   const [tscoreTotalHip, setTscoreTotalHip] = createSignal<number | null>(null);
   const [tscoreInputValue, setTscoreInputValue] = createSignal<string>('');
   const [selectedRfIds, setSelectedRfIds] = createSignal<Set<string>>(new Set());
+  const [contraindications, setContraindications] = createSignal<ContraindicationContext>(
+    createEmptyContraindicationContext()
+  );
+  const [hasRecentHipFractureSurgery, setHasRecentHipFractureSurgery] = createSignal(false);
+  const [events, setEvents] = createSignal<EventInput>(createEmptyEventInput());
+  const [postmenopausal, setPostmenopausal] = createSignal(false);
+  const [bundleVersion, setBundleVersion] = createSignal(DEFAULT_BUNDLE_VERSION);
+  const [eventSectionExpanded, setEventSectionExpanded] = createSignal(false);
   const [rfSectionExpanded, setRfSectionExpanded] = createSignal(false);
+  const [batchSectionExpanded, setBatchSectionExpanded] = createSignal(false);
+  const [caseSectionExpanded, setCaseSectionExpanded] = createSignal(false);
+  const [gdtSectionExpanded, setGdtSectionExpanded] = createSignal(false);
+  const [fhirSectionExpanded, setFhirSectionExpanded] = createSignal(false);
+  const [bmpSectionExpanded, setBmpSectionExpanded] = createSignal(false);
+  const [storageMode, setStorageModeSignal] = createSignal<StorageMode>(getStorageMode());
   const [expandedMegs, setExpandedMegs] = createSignal<Set<string>>(new Set());
   const [expandedGroups, setExpandedGroups] = createSignal<Set<string>>(
     new Set(["G1_STURZ", "G3_OTHER"]) // G2 initial nicht enthalten = kollabiert
   );
 
-  logger.log('Loading bundle...');
-  const bundle = loadBundle();
-  
+  // Restore a shared case from the URL hash (unknown RFs and version mismatches are reported)
+  const permalink = decodePermalink(window.location.hash);
+  if (permalink.state) {
+    setSex(permalink.state.sex);
+    setAge(permalink.state.age);
+    setTscoreTotalHip(permalink.state.tscoreTotalHip);
+    setTscoreInputValue(permalink.state.tscoreTotalHip !== null ? String(permalink.state.tscoreTotalHip) : '');
+    setSelectedRfIds(new Set(permalink.state.selectedRfIds));
+    setPostmenopausal(permalink.state.postmenopausal);
+    setContraindications(permalink.state.contraindications);
+    setHasRecentHipFractureSurgery(permalink.state.hasRecentHipFractureSurgery);
+    setEvents(permalink.state.events);
+    setBundleVersion(permalink.state.bundleVersion);
+  }
+  const permalinkWarnings = permalink.warnings_de;
+
   // Central RF catalog cache - loaded once and reused
   const rfCatalog = createMemo(() => {
     try {
@@ -59,18 +96,6 @@ export default function App() {
     }
   });
 
-  // Load RF catalog with error handling - use memo to make it lazy
-  const availableRfs = createMemo(() => {
-    const catalog = rfCatalog();
-    if (!catalog) return [];
-    try {
-      return getRiskFactorsForCalculation(catalog);
-    } catch (error) {
-      logger.error('Failed to get calculation RFs:', error);
-      return [];
-    }
-  });
-
   // Display RFs: includes calculation RFs plus trigger-only RFs
   const displayRfs = createMemo(() => {
     const catalog = rfCatalog();
@@ -107,6 +132,12 @@ export default function App() {
     }
   });
 
+  // Event-derived RFs are auto-selected (same merge as in the engine)
+  const eventRfIds = createMemo(() => new Set(deriveEventRiskFactorIds(events(), todayIsoDate())));
+  const effectiveRfIds = createMemo(() =>
+    mergeEventRiskFactors(selectedRfIds(), Array.from(eventRfIds()), megIndex())
+  );
+
   // Get MEG label from catalog
   const getMegLabel = (megId: string): string => {
     const catalog = rfCatalog();
@@ -133,25 +164,21 @@ export default function App() {
   
   logger.log('App component initialized');
 
-  const computedAgeBin = createMemo(() => {
+  // Entry pathway drives scope checks and notices (same function as in the engine)
+  const entry = createMemo(() => {
     const ageValue = age();
     if (ageValue === null) return null;
-    return ageBin(ageValue);
-  });
-
-  const isTscoreOutOfScope = createMemo(() => {
-    const tscore = tscoreTotalHip();
-    return tscore !== null && tscore > 0.0;
-  });
-
-  // RF selection and multiplier computation
-  const top2Rfs = createMemo(() => {
-    return selectTop2RiskFactors(selectedRfIds(), availableRfs());
+    return assessEntryPathway({
+      sex: sex(),
+      age: ageValue,
+      postmenopausal: sex() === 'female' && postmenopausal(),
+      tscoreTotalHip: tscoreTotalHip(),
+      events: events(),
+      referenceDate: todayIsoDate(),
+    });
   });
 
-  const combinedMultiplier = createMemo(() => {
-    return computeCombinedMultiplier(top2Rfs());
-  });
+  const scopeNotices = createMemo(() => entry()?.notices_de ?? []);
 
   // Group RFs for display (by group and MEG)
   const groupedRfs = createMemo(() => {
@@ -276,151 +303,133 @@ export default function App() {
     }
   };
 
-  const results = createMemo(() => {
+  const patientInput = createMemo((): PatientInput | null => {
     const sexValue = sex();
-    const ageBinValue = computedAgeBin();
-    const tscore = tscoreTotalHip();
+    const ageValue = age();
 
-    if (sexValue === null || ageBinValue === null) {
+    if (sexValue === null || ageValue === null) {
       return null;
     }
 
-    // If T-Score > 0.0, don't compute
-    if (isTscoreOutOfScope()) {
+    return {
+      sex: sexValue,
+      age: ageValue,
+      tscoreTotalHip: tscoreTotalHip(),
+      selectedRfIds: selectedRfIds(),
+      postmenopausal: sexValue === 'female' && postmenopausal(),
+      contraindications: contraindications(),
+      hasRecentHipFractureSurgery: hasRecentHipFractureSurgery(),
+      events: events(),
+      referenceDate: todayIsoDate(),
+    };
+  });
+
+  const results = createMemo(() => {
+    const input = patientInput();
+    if (input === null) {
       return null;
     }
+    return assessPatient(input, getBundle(bundleVersion()) ?? getDefaultBundle());
+  });
 
-    let cell3: number | null;
-    let cell5: number | null;
-    let cell10: number | null;
-    let usedBmd = false;
-
-    if (tscore === null || tscore === undefined) {
-      // No T-Score provided: use no_bmd (current MVP behavior)
-      cell3 = lookupNoBmdCell(bundle, sexValue, 3, ageBinValue);
-      cell5 = lookupNoBmdCell(bundle, sexValue, 5, ageBinValue);
-      cell10 = lookupNoBmdCell(bundle, sexValue, 10, ageBinValue);
-    } else {
-      // T-Score provided: use WITH_BMD tables
-      usedBmd = true;
-      
-      // Get tables for each threshold to extract available bins
-      const table3 = bundle.tables.find(
-        (t: ThresholdTable) => t.sex === sexValue && t.threshold_percent === 3
-      );
-      const table5 = bundle.tables.find(
-        (t: ThresholdTable) => t.sex === sexValue && t.threshold_percent === 5
-      );
-      const table10 = bundle.tables.find(
-        (t: ThresholdTable) => t.sex === sexValue && t.threshold_percent === 10
-      );
+  // Band per registered bundle version (with a single version the panel explains how to add one)
+  const bundleComparison = createMemo(() => {
+    const input = patientInput();
+    const current = results();
+    if (input === null || current === null) {
+      return [];
+    }
+    return compareBundleVersions(input, current);
+  });
 
-      // Map T-Score to bin for each threshold (may differ per table)
-      const tscoreBin3 = table3 ? mapTscoreToBin(tscore, getAvailableTscoreBins(table3)) : null;
-      const tscoreBin5 = table5 ? mapTscoreToBin(tscore, getAvailableTscoreBins(table5)) : null;
-      const tscoreBin10 = table10 ? mapTscoreToBin(tscore, getAvailableTscoreBins(table10)) : null;
+  // Keep the URL hash in sync with the case (shareable link, survives reload)
+  const permalinkHash = createMemo(() =>
+    encodePermalink({
+      sex: sex(),
+      age: age(),
+      tscoreTotalHip: tscoreTotalHip(),
+      selectedRfIds: Array.from(selectedRfIds()),
+      postmenopausal: postmenopausal(),
+      contraindications: contraindications(),
+      hasRecentHipFractureSurgery: hasRecentHipFractureSurgery(),
+      events: events(),
+      referenceDate: todayIsoDate(),
+      bundleVersion: bundleVersion(),
+    })
+  );
 
-      cell3 = tscoreBin3 !== null ? lookupCell(bundle, sexValue, 3, ageBinValue, tscoreBin3) : null;
-      cell5 = tscoreBin5 !== null ? lookupCell(bundle, sexValue, 5, ageBinValue, tscoreBin5) : null;
-      cell10 = tscoreBin10 !== null ? lookupCell(bundle, sexValue, 10, ageBinValue, tscoreBin10) : null;
-    }
+  // No-persistence mode: the case must not survive in the URL/history either
+  createEffect(() => {
+    const hash = permalinkHash();
+    const base = `${window.location.pathname}${window.location.search}`;
+    const empty = sex() === null && age() === null;
+    history.replaceState(null, '', empty || storageMode() === 'memory' ? base : `${base}#${hash}`);
+  });
 
-    // Use multiplier to determine threshold reach
-    const multiplier = combinedMultiplier();
-    
-    // When no BMD and no RFs (multiplier = 1.0), preserve original MVP behavior:
-    // - If cell is null → reached = true (empty cell = already reached)
-    // - If cell is numeric → reached = false (numeric cell = NOT reached by default)
-    // When BMD is provided OR RFs are selected, use multiplier comparison:
-    // - If cell is null → reached = true (unchanged)
-    // - If cell is numeric → reached = (multiplier >= requiredFactor)
-    // Note: Uses epsilon tolerance in isThresholdReached to handle floating-point precision
-    
-    const threshold3 = !usedBmd && multiplier === 1.0 && cell3 !== null
-      ? { reached: false, reason: "Schwelle nicht erreicht (ohne RF)" }
-      : isThresholdReached(cell3, multiplier);
-    const threshold5 = !usedBmd && multiplier === 1.0 && cell5 !== null
-      ? { reached: false, reason: "Schwelle nicht erreicht (ohne RF)" }
-      : isThresholdReached(cell5, multiplier);
-    const threshold10 = !usedBmd && multiplier === 1.0 && cell10 !== null
-      ? { reached: false, reason: "Schwelle nicht erreicht (ohne RF)" }
-      : isThresholdReached(cell10, multiplier);
-
-    const band = highestReachedBand(
-      threshold3.reached,
-      threshold5.reached,
-      threshold10.reached
-    );
-
-    // Get all RFs from catalog (not just calculation RFs) for trigger detection
-    const catalog = rfCatalog();
-    const allRfs = catalog ? getAllRiskFactors(catalog) : [];
-    const selectedRfs = allRfs.filter((rf) => selectedRfIds().has(rf.rf_id));
-
-    // Compute triggers
-    const imminent = selectedRfs.some((rf) => rf.flags?.imminent_rr === true);
-    const strongIrreversibleA = selectedRfs.some((rf) => rf.flags?.strong_irreversible_A === true);
-    const triggerPresent = imminent || strongIrreversibleA;
-
-    // Get RFs contributing to each trigger
-    const imminentRfs = selectedRfs.filter((rf) => rf.flags?.imminent_rr === true);
-    const strongIrreversibleARfs = selectedRfs.filter((rf) => rf.flags?.strong_irreversible_A === true);
-
-    // Compute recommendation based on band and trigger presence
-    let recommendation: string;
-    if (band === ">=10%") {
-      recommendation = "Therapie indiziert (hoch)";
-    } else if (band === "5–<10%") {
-      recommendation = "Therapie empfohlen";
-    } else if (band === "3–<5%") {
-      recommendation = triggerPresent
-        ? "Therapie kann erwogen werden"
-        : "Keine spezifische Therapie; Prävention / Verlauf";
-    } else {
-      recommendation = "Keine spezifische Therapie; Prävention / Verlauf";
-    }
+  const setStorageMode = (mode: StorageMode) => {
+    persistStorageMode(mode);
+    setStorageModeSignal(mode);
+  };
 
-    // Derive therapy plan from risk band and trigger presence
-    const therapyPlan = deriveTherapyPlan(band as RiskBand, triggerPresent);
+  // Bumped whenever the inputs are reset or replaced: an imported GDT request then belongs to another case
+  const [caseGeneration, setCaseGeneration] = createSignal(0);
+
+  // Clear the current case (auto-lock after inactivity)
+  const resetCaseInputs = () => {
+    setCaseGeneration(caseGeneration() + 1);
+    setSex(null);
+    setAge(null);
+    setTscoreTotalHip(null);
+    setTscoreInputValue('');
+    setSelectedRfIds(new Set<string>());
+    setPostmenopausal(false);
+    setContraindications(createEmptyContraindicationContext());
+    setHasRecentHipFractureSurgery(false);
+    setEvents(createEmptyEventInput());
+  };
 
-    // Get candidate substances and rank by evidence
-    const candidateSubstances = getCandidateSubstances(therapyPlan.strategy);
-    // For now, no contraindication filtering (out of scope)
-    const allowedSubstances = candidateSubstances;
-    const rankedSubstances = rankSubstancesByEvidence(allowedSubstances);
+  // Reopen a saved case: restore all inputs (result is recomputed from them)
+  const openSavedCase = (saved: SavedCase) => {
+    const input = saved.input;
+    setCaseGeneration(caseGeneration() + 1);
+    setSex(input.sex);
+    setAge(input.age);
+    setTscoreTotalHip(input.tscoreTotalHip);
+    setTscoreInputValue(input.tscoreTotalHip !== null ? String(input.tscoreTotalHip) : '');
+    setSelectedRfIds(new Set(input.selectedRfIds));
+    setPostmenopausal(input.postmenopausal ?? false);
+    setContraindications(input.contraindications ?? createEmptyContraindicationContext());
+    setHasRecentHipFractureSurgery(input.hasRecentHipFractureSurgery ?? false);
+    setEvents(input.events ?? createEmptyEventInput());
+    setBundleVersion(getSavedCaseBundleVersion(saved));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
-    return {
-      ageBin: ageBinValue,
-      reached3: threshold3.reached,
-      reached5: threshold5.reached,
-      reached10: threshold10.reached,
-      band,
-      usedBmd,
-      multiplier,
-      top2Rfs: top2Rfs(),
-      thresholdDetails: {
-        threshold3: { requiredFactor: cell3, ...threshold3 },
-        threshold5: { requiredFactor: cell5, ...threshold5 },
-        threshold10: { requiredFactor: cell10, ...threshold10 },
-      },
-      triggers: {
-        imminent,
-        strongIrreversibleA,
-        triggerPresent,
-        imminentRfs,
-        strongIrreversibleARfs,
-      },
-      recommendation,
-      therapyPlan,
-      rankedSubstances,
-    };
-  });
+  // Pre-fill from a GDT request of the practice software (new patient: other inputs reset)
+  const importGdtRequest = (request: GdtPatientRequest) => {
+    resetCaseInputs();
+    setSex(request.sex);
+    setAge(request.age);
+    setTscoreTotalHip(request.tscore);
+    setTscoreInputValue(request.tscore !== null ? String(request.tscore) : '');
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Pre-fill from a FHIR Bundle (new patient: other inputs reset)
+  const importFhirState = (state: NonNullable<FhirImportResult['state']>) => {
+    resetCaseInputs();
+    setSex(state.sex);
+    setAge(state.age);
+    setTscoreTotalHip(state.tscoreTotalHip);
+    setTscoreInputValue(state.tscoreTotalHip !== null ? String(state.tscoreTotalHip) : '');
+    setSelectedRfIds(new Set(state.selectedRfIds));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const shareUrl = () =>
+    `${window.location.origin}${window.location.pathname}${window.location.search}#${permalinkHash()}`;
 
   const ageValue = () => age();
-  const isOutOfScope = createMemo(() => {
-    const ageValue = age();
-    return ageValue !== null && ageValue < 50;
-  });
 
   logger.log('App render called');
   
@@ -428,6 +437,17 @@ export default function App() {
     <div class="app">
       <h1>🦴 Risikorechner Osteoporose 🐕</h1>
 
+      {permalinkWarnings.length > 0 && (
+        <div class="notice permalink-warning">
+          <strong>Hinweise zum geöffneten Link:</strong>
+          <ul>
+            {permalinkWarnings.map((warning) => (
+              <li>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <InputSection
         sex={sex}
         setSex={setSex}
@@ -436,8 +456,22 @@ export default function App() {
         tscoreInputValue={tscoreInputValue}
         setTscoreInputValue={setTscoreInputValue}
         setTscoreTotalHip={setTscoreTotalHip}
-        isOutOfScope={isOutOfScope}
-        isTscoreOutOfScope={isTscoreOutOfScope}
+        postmenopausal={postmenopausal}
+        setPostmenopausal={setPostmenopausal}
+        scopeNotices={scopeNotices}
+        contraindications={contraindications}
+        setContraindications={setContraindications}
+        hasRecentHipFractureSurgery={hasRecentHipFractureSurgery}
+        setHasRecentHipFractureSurgery={setHasRecentHipFractureSurgery}
+        bundleVersion={bundleVersion}
+        setBundleVersion={setBundleVersion}
+      />
+
+      <EventSection
+        events={events}
+        setEvents={setEvents}
+        isExpanded={eventSectionExpanded()}
+        onToggleExpanded={() => setEventSectionExpanded(!eventSectionExpanded())}
       />
 
       <div class="card">
@@ -465,7 +499,8 @@ export default function App() {
                       rfs={groups.G1_STURZ}
                       megGroups={megGroups.G1_STURZ}
                       isExpanded={isGroupExpanded("G1_STURZ")}
-                      selectedRfIds={selectedRfIds()}
+                      selectedRfIds={effectiveRfIds()}
+                      autoSelectedRfIds={eventRfIds()}
                       age={age()}
                       onToggleExpanded={() => toggleGroupExpanded("G1_STURZ")}
                       onToggleMegExpanded={toggleMegExpanded}
@@ -481,7 +516,8 @@ export default function App() {
                       rfs={groups.G2_RA_GC}
                       megGroups={megGroups.G2_RA_GC}
                       isExpanded={isGroupExpanded("G2_RA_GC")}
-                      selectedRfIds={selectedRfIds()}
+                      selectedRfIds={effectiveRfIds()}
+                      autoSelectedRfIds={eventRfIds()}
                       age={age()}
                       onToggleExpanded={() => toggleGroupExpanded("G2_RA_GC")}
                       onToggleMegExpanded={toggleMegExpanded}
@@ -497,7 +533,8 @@ export default function App() {
                       rfs={groups.G3_OTHER}
                       megGroups={megGroups.G3_OTHER}
                       isExpanded={isGroupExpanded("G3_OTHER")}
-                      selectedRfIds={selectedRfIds()}
+                      selectedRfIds={effectiveRfIds()}
+                      autoSelectedRfIds={eventRfIds()}
                       age={age()}
                       onToggleExpanded={() => toggleGroupExpanded("G3_OTHER")}
                       onToggleMegExpanded={toggleMegExpanded}
@@ -518,6 +555,14 @@ export default function App() {
         <div class="card result">
           <h2>Ergebnis</h2>
           <div class="result-content">
+            <div class="result-row">
+              <span class="result-label">Tabellenversion:</span>
+              <span class="result-value">{getBundleLabel(results()!.bundleVersion)}</span>
+            </div>
+            <div class="result-row">
+              <span class="result-label">Zugangsweg:</span>
+              <span class="result-value">{results()!.entry.label_de}</span>
+            </div>
             <div class="result-row">
               <span class="result-label">Altersgruppe:</span>
               <span class="result-value">{results()!.ageBin}</span>
@@ -544,6 +589,37 @@ export default function App() {
               <span class="result-label">Empfehlung:</span>
               <span class="result-value">{results()!.recommendation}</span>
             </div>
+            {bundleComparison().length > 0 && (
+              <div class="bundle-comparison">
+                <strong>Vergleich der Tabellenversionen:</strong>
+                <ul>
+                  {bundleComparison().map((comparison) => (
+                    <li classList={{ changed: comparison.changed }}>
+                      {comparison.label_de} (v{comparison.bundle_version}): {comparison.band ?? 'außerhalb des Scopes'}
+                      {comparison.changed && ` (abweichend von ${results()!.band})`}
+                    </li>
+                  ))}
+                </ul>
+                {bundleComparison().length < 2 && (
+                  <p class="rf-group-hint">
+                    Derzeit ist nur eine Tabellenversion hinterlegt, daher gibt es keine Abweichungen. Sobald eine
+                    weitere Version (z.B. neue DVO-Version oder Langfassung) in context/ registriert ist, wird hier
+                    das Band je Version verglichen.
+                  </p>
+                )}
+              </div>
+            )}
+            {results()!.dataErrors.length > 0 && (
+              <div class="notice data-error">
+                <strong>Datenfehler in den Schwellentabellen:</strong>
+                <ul>
+                  {results()!.dataErrors.map((error) => (
+                    <li>{error}</li>
+                  ))}
+                </ul>
+                Betroffene Schwellen werden nicht als erreicht gewertet; das Ergebnis ist unvollständig.
+              </div>
+            )}
           </div>
 
           <div class="therapy-strategy-section">
@@ -557,6 +633,40 @@ export default function App() {
                   {results()!.therapyPlan.sequence_hint}
                 </div>
               )}
+              {results()!.therapyPlan.required_rationale && (
+                <div class="therapy-rationale">
+                  <strong>Voraussetzung:</strong> {results()!.therapyPlan.required_rationale}
+                </div>
+              )}
+              {results()!.therapyPlan.actions && results()!.therapyPlan.actions!.length > 0 && (
+                <div class="therapy-actions">
+                  <strong>Maßnahmen:</strong> {results()!.therapyPlan.actions!.join(' • ')}
+                </div>
+              )}
+              {results()!.therapyPlan.secondary_considerations.length > 0 && (
+                <div class="therapy-secondary">
+                  <h4>Sekundär zu erwägen</h4>
+                  <ul class="rf-list">
+                    {results()!.therapyPlan.secondary_considerations.map((consideration) => (
+                      <li>
+                        {consideration.therapy_class === "osteoanabolic" ? "osteoanabol" : "antiresorptiv"}
+                        {" "}({consideration.options.map(getSubstanceLabel).join(', ')})
+                        {" "}– Empfehlungsgrad {consideration.strength}: {consideration.why_de}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {results()!.therapyPlan.special_notes.length > 0 && (
+                <div class="therapy-special-notes">
+                  <h4>Besondere Hinweise</h4>
+                  <ul class="rf-list">
+                    {results()!.therapyPlan.special_notes.map((note) => (
+                      <li>{note}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               
               {/* Guideline section */}
               <div class="guideline-section">
@@ -575,16 +685,19 @@ export default function App() {
               </div>
 
               {/* Substance options section */}
-              {results()!.therapyPlan.strategy !== "none" && results()!.rankedSubstances.length > 0 && (
+              {results()!.therapyPlan.strategy !== "none" && (results()!.rankedSubstances.length > 0 || results()!.excludedSubstances.length > 0) && (
                 <div class="substance-options-section">
                   <h4>Medikamentöse Optionen (evidenzbasiert)</h4>
                   <div class="substance-options-list">
-                    {results()!.rankedSubstances.map((substance) => {
+                    {[...results()!.rankedSubstances, ...results()!.excludedSubstances].map((substance) => {
                       const metadata = getMetadataFor(substance.substance_id);
                       const sexValue = sex();
                       
                       return (
-                        <div class="substance-option">
+                        <div
+                          class={`substance-option${substance.ui.excludedReason ? ' excluded' : ''}`}
+                          aria-disabled={substance.ui.excludedReason ? true : undefined}
+                        >
                           <div class="substance-header">
                             <span class="substance-name">
                               {substance.evidence?.label_de || substance.substance_id}
@@ -596,6 +709,11 @@ export default function App() {
                           <div class="substance-efficacy">
                             {substance.ui.efficacyHint}
                           </div>
+                          {substance.ui.excludedReason && (
+                            <div class="excluded-reason">
+                              Ausgeschlossen: {substance.ui.excludedReason}
+                            </div>
+                          )}
                           {metadata && (
                             <div class="substance-meta">
                               {getRegimenText(metadata)}
@@ -635,13 +753,13 @@ export default function App() {
             <div class="transparency-block">
               <h3>Berechnung</h3>
               
-              {selectedRfIds().size > 0 && (
+              {effectiveRfIds().size > 0 && (
                 <>
                   <div class="transparency-section">
                     <strong>Ausgewählte Risikofaktoren:</strong>
                     <ul class="rf-list">
                       {displayRfs()
-                        .filter((rf) => selectedRfIds().has(rf.rf_id))
+                        .filter((rf) => effectiveRfIds().has(rf.rf_id))
                         .map((rf) => (
                           <li>{formatRfLabel(rf)}</li>
                         ))}
@@ -653,7 +771,7 @@ export default function App() {
                     const activeMegs: Array<{ megId: string; megLabel: string; activeRf: RiskFactor }> = [];
                     const processedMegs = new Set<string>();
                     
-                      selectedRfIds().forEach((rfId) => {
+                      effectiveRfIds().forEach((rfId) => {
                         const megId = megIndex().rfToMeg.get(rfId);
                         if (megId && !processedMegs.has(megId)) {
                           processedMegs.add(megId);
@@ -695,6 +813,13 @@ export default function App() {
                               ))}
                             </ul>
                           )}
+                          {results()!.triggers.imminentFromEvents.reasons_de.length > 0 && (
+                            <ul style={{ "margin-left": "1rem", "margin-top": "0.25rem" }}>
+                              {results()!.triggers.imminentFromEvents.reasons_de.map((reason) => (
+                                <li>Ereignis: {reason}</li>
+                              ))}
+                            </ul>
+                          )}
                         </li>
                         <li>
                           <strong>Starke/irreversible RF (Option A):</strong> {results()!.triggers.strongIrreversibleA ? 'Ja' : 'Nein'}
@@ -710,11 +835,11 @@ export default function App() {
                     </div>
                   )}
 
-                  {top2Rfs().length > 0 && (
+                  {results()!.top2Rfs.length > 0 && (
                     <div class="transparency-section">
                       <strong>Top-2 Risikofaktoren (gewählt):</strong>
                       <ul class="rf-list chosen-rf">
-                        {top2Rfs().map((info) => (
+                        {results()!.top2Rfs.map((info) => (
                           <li>
                             {info.rf.label_de} (RR: {info.rf.rr_3y}, Quelle: {info.poolSource})
                           </li>
@@ -732,34 +857,125 @@ export default function App() {
 
               <div class="transparency-section">
                 <strong>Schwellenwerte:</strong>
+                {results()!.tscoreMappingNote && (
+                  <p class="reason-text">{results()!.tscoreMappingNote}</p>
+                )}
                 <div class="threshold-details">
                   <div class="threshold-detail">
-                    <strong>3%:</strong> Erforderlicher Faktor: {results()?.thresholdDetails.threshold3.requiredFactor === null ? 'leer' : results()?.thresholdDetails.threshold3.requiredFactor?.toFixed(2) ?? 'N/A'} | 
+                    <strong>3%:</strong> Altersreihe: {results()?.thresholdDetails.threshold3.ageBin ?? 'N/A'} | 
+                    T-Score-Spalte: {formatTscoreColumn(results()?.thresholdDetails.threshold3)} | 
+                    Erforderlicher Faktor: {formatRequiredFactor(results()?.thresholdDetails.threshold3)} | 
                     Erreicht: {results()?.thresholdDetails.threshold3.reached ? 'Ja' : 'Nein'} | 
                     <span class="reason-text">{results()?.thresholdDetails.threshold3.reason ?? ''}</span>
                   </div>
                   <div class="threshold-detail">
-                    <strong>5%:</strong> Erforderlicher Faktor: {results()?.thresholdDetails.threshold5.requiredFactor === null ? 'leer' : results()?.thresholdDetails.threshold5.requiredFactor?.toFixed(2) ?? 'N/A'} | 
+                    <strong>5%:</strong> Altersreihe: {results()?.thresholdDetails.threshold5.ageBin ?? 'N/A'} | 
+                    T-Score-Spalte: {formatTscoreColumn(results()?.thresholdDetails.threshold5)} | 
+                    Erforderlicher Faktor: {formatRequiredFactor(results()?.thresholdDetails.threshold5)} | 
                     Erreicht: {results()?.thresholdDetails.threshold5.reached ? 'Ja' : 'Nein'} | 
                     <span class="reason-text">{results()?.thresholdDetails.threshold5.reason ?? ''}</span>
                   </div>
                   <div class="threshold-detail">
-                    <strong>10%:</strong> Erforderlicher Faktor: {results()?.thresholdDetails.threshold10.requiredFactor === null ? 'leer' : results()?.thresholdDetails.threshold10.requiredFactor?.toFixed(2) ?? 'N/A'} | 
+                    <strong>10%:</strong> Altersreihe: {results()?.thresholdDetails.threshold10.ageBin ?? 'N/A'} | 
+                    T-Score-Spalte: {formatTscoreColumn(results()?.thresholdDetails.threshold10)} | 
+                    Erforderlicher Faktor: {formatRequiredFactor(results()?.thresholdDetails.threshold10)} | 
                     Erreicht: {results()?.thresholdDetails.threshold10.reached ? 'Ja' : 'Nein'} | 
                     <span class="reason-text">{results()?.thresholdDetails.threshold10.reason ?? ''}</span>
                   </div>
                 </div>
               </div>
+
+              <div class="transparency-section">
+                <strong>Entscheidungspfad:</strong>
+                <ol class="trace-list">
+                  {results()!.trace.steps.map((step) => (
+                    <li class={`trace-step trace-${step.stage}`}>
+                      <span class="trace-rule">{step.rule}</span> {step.detail_de}
+                    </li>
+                  ))}
+                </ol>
+                <button
+                  type="button"
+                  class="trace-download"
+                  onClick={() =>
+                    downloadTextFile(`osteopo-trace-${todayIsoDate()}.json`, serializeDecisionTrace(results()!.trace))
+                  }
+                >
+                  Entscheidungspfad als JSON herunterladen
+                </button>
+              </div>
             </div>
           )}
+
+          <button type="button" class="trace-download report-print" onClick={() => window.print()}>
+            Bericht drucken
+          </button>
+        </div>
+      )}
+
+      {patientInput() && (
+        <div class="card">
+          <ShareLink url={shareUrl} />
+        </div>
+      )}
+
+      {results() && (
+        <div class="card">
+          <BefundText input={patientInput} result={results} />
         </div>
       )}
 
+      <CaseStorage
+        input={patientInput}
+        result={results}
+        bundleVersion={bundleVersion}
+        storageMode={storageMode}
+        setStorageMode={setStorageMode}
+        onOpen={openSavedCase}
+        onAutoLock={resetCaseInputs}
+        isExpanded={caseSectionExpanded()}
+        onToggleExpanded={() => setCaseSectionExpanded(!caseSectionExpanded())}
+      />
+
+      <GdtExchange
+        input={patientInput}
+        result={results}
+        onImport={importGdtRequest}
+        caseGeneration={caseGeneration}
+        isExpanded={gdtSectionExpanded()}
+        onToggleExpanded={() => setGdtSectionExpanded(!gdtSectionExpanded())}
+      />
+
+      <FhirExchange
+        input={patientInput}
+        result={results}
+        onImport={importFhirState}
+        isExpanded={fhirSectionExpanded()}
+        onToggleExpanded={() => setFhirSectionExpanded(!fhirSectionExpanded())}
+      />
+
+      {results() && (
+        <BmpExport
+          input={patientInput}
+          result={results}
+          isExpanded={bmpSectionExpanded()}
+          onToggleExpanded={() => setBmpSectionExpanded(!bmpSectionExpanded())}
+        />
+      )}
+
+      <BatchAssessment
+        bundleVersion={bundleVersion}
+        isExpanded={batchSectionExpanded()}
+        onToggleExpanded={() => setBatchSectionExpanded(!batchSectionExpanded())}
+      />
+
       <div class="disclaimer">
         {results()?.usedBmd
           ? "Die Risikoeinstufung basiert auf Alter, Geschlecht, BMD (Total Hip T-Score) und ausgewählten Risikofaktoren gemäß DVO 2023. Die Therapieempfehlungen und medikamentösen Optionen sind evidenzbasiert und orientieren sich an der DVO-Leitlinie 2023. Dieses Tool dient als Unterstützung für medizinische Entscheidungen und ersetzt nicht die ärztliche Beurteilung."
           : "Die Risikoeinstufung basiert auf Alter, Geschlecht und ausgewählten Risikofaktoren gemäß DVO 2023 (ohne BMD). Die Therapieempfehlungen und medikamentösen Optionen sind evidenzbasiert und orientieren sich an der DVO-Leitlinie 2023. Dieses Tool dient als Unterstützung für medizinische Entscheidungen und ersetzt nicht die ärztliche Beurteilung."}
       </div>
+
+      <ClinicalReport input={patientInput} result={results} />
     </div>
   );
 }
@@ -0,0 +1,213 @@
+import { createSignal, createMemo } from 'solid-js';
+import type { Accessor } from 'solid-js';
+import type { BatchColumnMapping, BatchColumnRole, BatchRowResult } from '../data/types';
+import {
+  buildBatchResultRows,
+  runBatchAssessment,
+  suggestBatchMapping,
+  validateBatchMapping,
+} from '../data/batchAssessment';
+import { getBundle, getDefaultBundle } from '../data/bundleRegistry';
+import { getAllRiskFactors, loadRfCatalog } from '../data/rfCatalog';
+import { todayIsoDate } from '../data/events';
+import { parseCsv, serializeCsv } from '../utils/csv';
+import type { CsvTable } from '../utils/csv';
+import { downloadTextFile } from '../utils/download';
+
+interface BatchAssessmentProps {
+  bundleVersion: Accessor<string>;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+const ROLE_LABELS: Array<{ role: BatchColumnRole; label: string }> = [
+  { role: 'ignore', label: 'ignorieren' },
+  { role: 'sex', label: 'Geschlecht' },
+  { role: 'age', label: 'Alter' },
+  { role: 'tscore', label: 'T-Score' },
+  { role: 'postmenopausal', label: 'Postmenopausal (ja/nein)' },
+  { role: 'rf_list', label: 'RF-Liste (IDs, kommagetrennt)' },
+];
+
+const MAX_ERROR_PREVIEW = 10;
+
+export function BatchAssessment(props: BatchAssessmentProps) {
+  const [table, setTable] = createSignal<CsvTable | null>(null);
+  const [fileName, setFileName] = createSignal('');
+  const [mapping, setMapping] = createSignal<BatchColumnMapping>([]);
+  const [mappingOpen, setMappingOpen] = createSignal(false);
+  const [results, setResults] = createSignal<BatchRowResult[] | null>(null);
+  const [readError, setReadError] = createSignal<string | null>(null);
+
+  const rfs = getAllRiskFactors(loadRfCatalog());
+  const mappingErrors = createMemo(() => validateBatchMapping(mapping()));
+  const errorRows = createMemo(() => (results() ?? []).filter((r) => r.errors.length > 0));
+
+  const loadFile = async (file: File) => {
+    setResults(null);
+    setReadError(null);
+    try {
+      const parsed = parseCsv(await file.text());
+      if (parsed.header.length === 0 || parsed.rows.length === 0) {
+        setReadError('Die Datei enthält keine Datenzeilen.');
+        return;
+      }
+      setTable(parsed);
+      setFileName(file.name);
+      setMapping(suggestBatchMapping(parsed.header));
+      setMappingOpen(true);
+    } catch (error) {
+      setReadError(`Datei konnte nicht gelesen werden: ${String(error)}`);
+    }
+  };
+
+  const updateRole = (index: number, role: BatchColumnRole) => {
+    const next = [...mapping()];
+    next[index] = role;
+    setMapping(next);
+  };
+
+  const run = () => {
+    const current = table();
+    if (!current || mappingErrors().length > 0) return;
+    setResults(runBatchAssessment(current, mapping(), getBundle(props.bundleVersion()) ?? getDefaultBundle()));
+    setMappingOpen(false);
+  };
+
+  const download = () => {
+    const current = table();
+    const rows = results();
+    if (!current || !rows) return;
+    const baseName = fileName().replace(/\.csv$/i, '') || 'batch';
+    downloadTextFile(
+      `${baseName}-auswertung-${todayIsoDate()}.csv`,
+      '\uFEFF' + serializeCsv(buildBatchResultRows(current, rows), current.delimiter),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <div class="card">
+      <div class="rf-section">
+        <button
+          type="button"
+          class="rf-toggle"
+          onClick={props.onToggleExpanded}
+          aria-expanded={props.isExpanded}
+          aria-label="Stapelauswertung ein- oder ausblenden"
+        >
+          {props.isExpanded ? '▼' : '▶'} Stapelauswertung (CSV-Import)
+        </button>
+
+        {props.isExpanded && (
+          <div class="rf-content batch-content">
+            <p class="rf-group-hint">
+              Pseudonymisierte Patientenliste als CSV laden (Trennzeichen ; , oder Tab). Jede Zeile wird einzeln
+              berechnet; fehlerhafte Zeilen erhalten einen Eintrag in der Spalte „fehler".
+            </p>
+
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              aria-label="CSV-Datei auswählen"
+              onChange={(e) => {
+                const file = e.currentTarget.files?.[0];
+                if (file) void loadFile(file);
+                e.currentTarget.value = '';
+              }}
+            />
+
+            {readError() && <div class="notice data-error">{readError()}</div>}
+
+            {table() && !mappingOpen() && (
+              <button type="button" class="trace-download" onClick={() => setMappingOpen(true)}>
+                Spaltenzuordnung bearbeiten
+              </button>
+            )}
+
+            {table() && mappingOpen() && (
+              <div class="batch-mapping" role="dialog" aria-label="Spaltenzuordnung">
+                <h3>Spaltenzuordnung – {fileName()} ({table()!.rows.length} Zeilen)</h3>
+                <table class="batch-mapping-table">
+                  <thead>
+                    <tr>
+                      <th>CSV-Spalte</th>
+                      <th>Beispiel</th>
+                      <th>Zuordnung</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table()!.header.map((column, index) => (
+                      <tr>
+                        <td>{column}</td>
+                        <td class="batch-sample">{table()!.rows[0]?.[index] ?? ''}</td>
+                        <td>
+                          <select
+                            value={mapping()[index]}
+                            aria-label={`Zuordnung für Spalte ${column}`}
+                            onChange={(e) => updateRole(index, e.currentTarget.value as BatchColumnRole)}
+                          >
+                            {ROLE_LABELS.map(({ role, label }) => (
+                              <option value={role}>{label}</option>
+                            ))}
+                            <optgroup label="Risikofaktor (ja/nein)">
+                              {rfs.map((rf) => (
+                                <option value={`rf:${rf.rf_id}`}>{rf.label_de}</option>
+                              ))}
+                            </optgroup>
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {mappingErrors().length > 0 && (
+                  <ul class="batch-mapping-errors">
+                    {mappingErrors().map((error) => (
+                      <li>{error}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div class="batch-actions">
+                  <button type="button" onClick={run} disabled={mappingErrors().length > 0}>
+                    Auswerten
+                  </button>
+                  <button type="button" onClick={() => setMappingOpen(false)}>
+                    Abbrechen
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {results() && (
+              <div class="batch-summary">
+                <p>
+                  {results()!.length} Zeilen ausgewertet, davon {errorRows().length} mit Fehler.
+                </p>
+                {errorRows().length > 0 && (
+                  <ul class="batch-error-list">
+                    {errorRows()
+                      .slice(0, MAX_ERROR_PREVIEW)
+                      .map((row) => (
+                        <li>
+                          Zeile {row.row}: {row.errors.join('; ')}
+                        </li>
+                      ))}
+                    {errorRows().length > MAX_ERROR_PREVIEW && (
+                      <li>… {errorRows().length - MAX_ERROR_PREVIEW} weitere (siehe Spalte „fehler")</li>
+                    )}
+                  </ul>
+                )}
+                <button type="button" class="trace-download" onClick={download}>
+                  Ergebnis als CSV herunterladen
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
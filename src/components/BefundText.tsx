@@ -0,0 +1,132 @@
+import { createSignal, createMemo } from 'solid-js';
+import type { Accessor } from 'solid-js';
+import type { AssessmentResult, BefundTemplateVariant, PatientInput } from '../data/types';
+import {
+  BEFUND_PLACEHOLDERS,
+  BEFUND_TEMPLATE_VARIANTS,
+  DEFAULT_BEFUND_TEMPLATES,
+  buildBefundValues,
+  renderBefundTemplate,
+} from '../data/befundText';
+import { loadBefundTemplates, resetBefundTemplate, saveBefundTemplate } from '../utils/befundTemplates';
+
+interface BefundTextProps {
+  input: Accessor<PatientInput | null>;
+  result: Accessor<AssessmentResult | null>;
+}
+
+export function BefundText(props: BefundTextProps) {
+  const [isExpanded, setIsExpanded] = createSignal(false);
+  const [variant, setVariant] = createSignal<BefundTemplateVariant>('short');
+  const [templates, setTemplates] = createSignal(loadBefundTemplates());
+  const [draft, setDraft] = createSignal<string | null>(null);
+  const [copied, setCopied] = createSignal(false);
+
+  const text = createMemo(() => {
+    const input = props.input();
+    const result = props.result();
+    if (!input || !result) return '';
+    return renderBefundTemplate(draft() ?? templates()[variant()], buildBefundValues(input, result));
+  });
+
+  const copyText = async () => {
+    try {
+      await navigator.clipboard.writeText(text());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const isCustomTemplate = (key: BefundTemplateVariant) => templates()[key] !== DEFAULT_BEFUND_TEMPLATES[key];
+
+  const selectVariant = (next: BefundTemplateVariant) => {
+    setVariant(next);
+    setDraft(null);
+  };
+
+  const saveDraft = () => {
+    const current = draft();
+    if (current === null) return;
+    saveBefundTemplate(variant(), current);
+    setTemplates(loadBefundTemplates());
+    setDraft(null);
+  };
+
+  const resetTemplate = () => {
+    resetBefundTemplate(variant());
+    setTemplates(loadBefundTemplates());
+    setDraft(null);
+  };
+
+  return (
+    <div class="befund-text">
+      <button
+        type="button"
+        class="trace-download"
+        onClick={() => setIsExpanded(!isExpanded())}
+        aria-expanded={isExpanded()}
+      >
+        {isExpanded() ? '▼' : '▶'} Befundtext kopieren
+      </button>
+
+      {isExpanded() && (
+        <div class="befund-text-content">
+          <div class="befund-variants" role="radiogroup" aria-label="Textvariante">
+            {BEFUND_TEMPLATE_VARIANTS.map((option) => (
+              <label>
+                <input
+                  type="radio"
+                  name="befund-variant"
+                  checked={variant() === option.key}
+                  onChange={() => selectVariant(option.key)}
+                />
+                {option.label}
+                {isCustomTemplate(option.key) && ' (eigene Vorlage)'}
+              </label>
+            ))}
+          </div>
+
+          <textarea class="befund-output" readOnly value={text()} rows={6} aria-label="Befundtext" />
+          <button type="button" onClick={() => void copyText()} disabled={!text()}>
+            {copied() ? 'Kopiert ✓' : 'Befundtext kopieren'}
+          </button>
+
+          <details class="befund-template-editor">
+            <summary>Vorlage bearbeiten</summary>
+            <p class="rf-group-hint">
+              Platzhalter in geschweiften Klammern werden ersetzt; Abschnitte in eckigen Klammern entfallen, wenn ein
+              enthaltener Platzhalter leer ist. Die Vorlage wird nur in diesem Browser gespeichert.
+            </p>
+            <textarea
+              rows={6}
+              value={draft() ?? templates()[variant()]}
+              onInput={(e) => setDraft(e.currentTarget.value)}
+              aria-label="Vorlage"
+            />
+            <div class="befund-template-actions">
+              <button type="button" onClick={saveDraft} disabled={draft() === null}>
+                Vorlage speichern
+              </button>
+              <button
+                type="button"
+                onClick={resetTemplate}
+                disabled={draft() === null && !isCustomTemplate(variant())}
+              >
+                Standardvorlage wiederherstellen
+              </button>
+            </div>
+            <ul class="befund-placeholders">
+              {BEFUND_PLACEHOLDERS.map((placeholder) => (
+                <li>
+                  <code>{`{${placeholder.key}}`}</code> – {placeholder.label_de}
+                </li>
+              ))}
+            </ul>
+          </details>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { createSignal, createMemo } from 'solid-js';
+import type { Accessor } from 'solid-js';
+import type { AssessmentResult, PatientInput } from '../data/types';
+import { buildBmpEntry, encodeBmpPayload, getBmpFilename } from '../data/bmp';
+import { getSubstanceLabel } from '../data/substanceRegistry';
+import { downloadFile } from '../utils/download';
+
+interface BmpExportProps {
+  input: Accessor<PatientInput | null>;
+  result: Accessor<AssessmentResult | null>;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+export function BmpExport(props: BmpExportProps) {
+  const [chosenId, setChosenId] = createSignal<string | null>(null);
+  const [copied, setCopied] = createSignal(false);
+
+  const options = createMemo(() => props.result()?.rankedSubstances.map((s) => s.substance_id) ?? []);
+
+  // Fall back to the top-ranked option when the choice is no longer available
+  const substanceId = createMemo(() => {
+    const chosen = chosenId();
+    return chosen && options().includes(chosen) ? chosen : options()[0] ?? null;
+  });
+
+  const entry = createMemo(() => {
+    const id = substanceId();
+    return id ? buildBmpEntry(id, props.input()?.sex ?? null) : null;
+  });
+
+  const copyFragment = async () => {
+    const current = entry();
+    if (!current) return;
+    try {
+      await navigator.clipboard.writeText(current.fragment);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const savePayload = () => {
+    const current = entry();
+    if (!current) return;
+    // Barcode content is ISO 8859-1
+    downloadFile(
+      getBmpFilename(current.substance_id),
+      encodeBmpPayload(current.payload),
+      'application/xml;charset=iso-8859-1'
+    );
+  };
+
+  return (
+    <div class="card">
+      <div class="rf-section">
+        <button
+          type="button"
+          class="rf-toggle"
+          onClick={props.onToggleExpanded}
+          aria-expanded={props.isExpanded}
+          aria-label="Medikationsplan-Eintrag ein- oder ausblenden"
+        >
+          {props.isExpanded ? '▼' : '▶'} Medikationsplan (BMP)
+        </button>
+
+        {props.isExpanded && (
+          <div class="rf-content bmp-content">
+            <p class="rf-group-hint">
+              Eintrag für den bundeseinheitlichen Medikationsplan: Wirkstoff, Dosierschema aus Standardfrequenz und
+              Applikationsweg sowie Hinweistext. Das XML-Fragment (&lt;M&gt;) wird in den bestehenden Plan übernommen;
+              der Barcode-Inhalt ist ein vollständiger Plan ohne Patientendaten, den die Praxissoftware mit dem Plan
+              des Patienten zusammenführt und als 2D-Barcode druckt.
+            </p>
+
+            {options().length === 0 ? (
+              <p class="rf-group-hint">Keine medikamentöse Option für die aktuelle Einstufung.</p>
+            ) : (
+              <>
+                <label class="bmp-select">
+                  Substanz:{' '}
+                  <select value={substanceId() ?? ''} onChange={(e) => setChosenId(e.currentTarget.value)}>
+                    {options().map((id) => (
+                      <option value={id}>{getSubstanceLabel(id)}</option>
+                    ))}
+                  </select>
+                </label>
+
+                {entry() && (
+                  <>
+                    {entry()!.warnings_de.length > 0 && (
+                      <ul class="bmp-warnings">
+                        {entry()!.warnings_de.map((warning) => (
+                          <li>{warning}</li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <strong>XML-Fragment</strong>
+                    <pre class="bmp-xml">{entry()!.fragment}</pre>
+                    <strong>Barcode-Inhalt</strong>
+                    <pre class="bmp-xml">{entry()!.payload}</pre>
+
+                    <div class="bmp-actions">
+                      <button type="button" class="trace-download" onClick={() => void copyFragment()}>
+                        {copied() ? 'Kopiert ✓' : 'XML-Fragment kopieren'}
+                      </button>
+                      <button type="button" class="trace-download" onClick={savePayload}>
+                        Barcode-Inhalt speichern
+                      </button>
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
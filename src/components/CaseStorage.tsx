@@ -0,0 +1,446 @@
+import { createSignal, createMemo, onMount, onCleanup } from 'solid-js';
+import type { Accessor } from 'solid-js';
+import type { AssessmentResult, PatientInput, SavedCase } from '../data/types';
+import {
+  DATA_VERSION_LABELS,
+  createSavedCase,
+  duplicateSavedCase,
+  getOutdatedDataVersions,
+  recomputeSavedCase,
+  searchSavedCases,
+} from '../data/savedCases';
+import { todayIsoDate } from '../data/events';
+import {
+  createCaseVault,
+  deleteCase,
+  exportEncryptedBackup,
+  hasCaseVault,
+  importEncryptedBackup,
+  isCaseStorageAvailable,
+  isCaseStorageUnlocked,
+  listCases,
+  lockCaseStorage,
+  putCase,
+  unlockCaseStorage,
+} from '../utils/caseStorage';
+import type { StorageMode } from '../utils/caseStorage';
+import { downloadTextFile } from '../utils/download';
+import { watchInactivity } from '../utils/inactivity';
+import { logger } from '../utils/logger';
+
+interface CaseStorageProps {
+  input: Accessor<PatientInput | null>;
+  result: Accessor<AssessmentResult | null>;
+  bundleVersion: Accessor<string>;
+  storageMode: Accessor<StorageMode>;
+  setStorageMode: (mode: StorageMode) => void;
+  onOpen: (saved: SavedCase) => void;
+  onAutoLock: () => void;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+const AUTO_LOCK_MINUTES = 10;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString('de-DE', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export function CaseStorage(props: CaseStorageProps) {
+  const [cases, setCases] = createSignal<SavedCase[]>([]);
+  const [unreadableCount, setUnreadableCount] = createSignal(0);
+  const [pseudonym, setPseudonym] = createSignal('');
+  const [query, setQuery] = createSignal('');
+  const [status, setStatus] = createSignal<string | null>(null);
+  const [unlocked, setUnlocked] = createSignal(isCaseStorageUnlocked());
+  const [vaultExists, setVaultExists] = createSignal<boolean | null>(null);
+  const [passphrase, setPassphrase] = createSignal('');
+  const [passphraseConfirm, setPassphraseConfirm] = createSignal('');
+  const [backupPassphrase, setBackupPassphrase] = createSignal('');
+  const [busy, setBusy] = createSignal(false);
+  const available = isCaseStorageAvailable();
+
+  const visibleCases = createMemo(() => searchSavedCases(cases(), query()));
+  const isPersistent = () => props.storageMode() === 'persistent';
+
+  const refresh = async () => {
+    if (!isCaseStorageUnlocked()) {
+      setCases([]);
+      setUnreadableCount(0);
+      return;
+    }
+    try {
+      const listing = await listCases();
+      if (listing.unreadableIds.length > 0) {
+        logger.error('Saved cases failed to decrypt:', listing.unreadableIds);
+      }
+      setCases(listing.cases);
+      setUnreadableCount(listing.unreadableIds.length);
+    } catch (error) {
+      logger.error('Failed to load saved cases:', error);
+      setStatus('Gespeicherte Fälle konnten nicht geladen werden.');
+    }
+  };
+
+  const checkVault = async () => {
+    if (!isPersistent() || typeof indexedDB === 'undefined') return;
+    try {
+      setVaultExists(await hasCaseVault());
+    } catch (error) {
+      logger.error('Failed to read case vault:', error);
+      setStatus('Browser-Speicher nicht verfügbar.');
+    }
+  };
+
+  const lock = (message: string) => {
+    lockCaseStorage();
+    setUnlocked(isCaseStorageUnlocked());
+    setCases([]);
+    setUnreadableCount(0);
+    setPassphrase('');
+    setPassphraseConfirm('');
+    setBackupPassphrase('');
+    setStatus(message);
+  };
+
+  onMount(() => {
+    if (!available) return;
+    void checkVault();
+    void refresh();
+
+    // Auto-lock on shared practice PCs: forget the key and clear the visible case;
+    // without persistence this also discards the cases kept in memory
+    const stop = watchInactivity(AUTO_LOCK_MINUTES * 60_000, () => {
+      lock(
+        isPersistent()
+          ? `Nach ${AUTO_LOCK_MINUTES} Minuten Inaktivität automatisch gesperrt.`
+          : `Nach ${AUTO_LOCK_MINUTES} Minuten Inaktivität automatisch gesperrt – die nur im Tab gehaltenen Fälle wurden verworfen.`
+      );
+      props.onAutoLock();
+    });
+    onCleanup(stop);
+  });
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    try {
+      await action();
+      setStatus(message);
+      await refresh();
+    } catch (error) {
+      logger.error('Case storage action failed:', error);
+      setStatus('Aktion fehlgeschlagen – Browser-Speicher nicht verfügbar oder gesperrt?');
+    }
+  };
+
+  const unlock = async () => {
+    setBusy(true);
+    try {
+      if (vaultExists()) {
+        if (!(await unlockCaseStorage(passphrase()))) {
+          setStatus('Passphrase falsch.');
+          return;
+        }
+        setStatus('Entsperrt.');
+      } else {
+        if (passphrase().length < MIN_PASSPHRASE_LENGTH) {
+          setStatus(`Die Passphrase muss mindestens ${MIN_PASSPHRASE_LENGTH} Zeichen lang sein.`);
+          return;
+        }
+        if (passphrase() !== passphraseConfirm()) {
+          setStatus('Die Passphrasen stimmen nicht überein.');
+          return;
+        }
+        await createCaseVault(passphrase());
+        setVaultExists(true);
+        setStatus('Verschlüsselter Speicher eingerichtet.');
+      }
+      setPassphrase('');
+      setPassphraseConfirm('');
+      setUnlocked(isCaseStorageUnlocked());
+      await refresh();
+    } catch (error) {
+      logger.error('Failed to unlock case storage:', error);
+      setStatus('Entsperren fehlgeschlagen – Browser-Speicher nicht verfügbar?');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeMode = (mode: StorageMode) => {
+    props.setStorageMode(mode);
+    lock(
+      mode === 'memory'
+        ? `Keine Speicherung: Fälle gelten nur für diesen Tab und werden beim Schließen oder nach ${AUTO_LOCK_MINUTES} Minuten Inaktivität verworfen.`
+        : 'Verschlüsselte Speicherung aktiv.'
+    );
+    void checkVault();
+    void refresh();
+  };
+
+  const save = () => {
+    const input = props.input();
+    const name = pseudonym().trim();
+    if (!input || name === '') return;
+    const saved = createSavedCase(name, input, props.result(), props.bundleVersion());
+    void run(() => putCase(saved), `Fall „${saved.pseudonym}" gespeichert.`);
+    setPseudonym('');
+  };
+
+  const recompute = (saved: SavedCase) => {
+    const { saved: updated, bandChanged } = recomputeSavedCase(saved);
+    void run(
+      () => putCase(updated),
+      bandChanged
+        ? `„${saved.pseudonym}" neu berechnet: Risikoband ${saved.result?.band ?? '–'} → ${updated.result?.band ?? '–'}.`
+        : `„${saved.pseudonym}" neu berechnet: Risikoband unverändert.`
+    );
+  };
+
+  const remove = (saved: SavedCase) => {
+    if (!window.confirm(`Fall „${saved.pseudonym}" endgültig löschen?`)) return;
+    void run(() => deleteCase(saved.id), `Fall „${saved.pseudonym}" gelöscht.`);
+  };
+
+  const exportBackup = async () => {
+    if (backupPassphrase().length < MIN_PASSPHRASE_LENGTH) {
+      setStatus(`Die Backup-Passphrase muss mindestens ${MIN_PASSPHRASE_LENGTH} Zeichen lang sein.`);
+      return;
+    }
+    setBusy(true);
+    try {
+      downloadTextFile(`osteopo-backup-${todayIsoDate()}.json`, await exportEncryptedBackup(backupPassphrase()));
+      setStatus(`Verschlüsseltes Backup mit ${cases().length} Fällen erstellt.`);
+    } catch (error) {
+      logger.error('Backup export failed:', error);
+      setStatus('Backup konnte nicht erstellt werden.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importBackup = async (file: File) => {
+    setBusy(true);
+    try {
+      const count = await importEncryptedBackup(await file.text(), backupPassphrase());
+      setStatus(`${count} Fälle aus dem Backup importiert.`);
+      await refresh();
+    } catch (error) {
+      logger.error('Backup import failed:', error);
+      setStatus('Import fehlgeschlagen: Passphrase falsch oder Datei ist kein gültiges Backup.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div class="card">
+      <div class="rf-section">
+        <button
+          type="button"
+          class="rf-toggle"
+          onClick={props.onToggleExpanded}
+          aria-expanded={props.isExpanded}
+          aria-label="Gespeicherte Fälle ein- oder ausblenden"
+        >
+          {props.isExpanded ? '▼' : '▶'} Gespeicherte Fälle {unlocked() ? `(${cases().length})` : '🔒'}
+        </button>
+
+        {props.isExpanded && (
+          <div class="rf-content case-content">
+            {!available && (
+              <div class="notice">Dieser Browser stellt keinen lokalen Speicher (IndexedDB) bereit.</div>
+            )}
+
+            <div class="case-mode" role="radiogroup" aria-label="Speichermodus">
+              <label class="radio-label">
+                <input
+                  type="radio"
+                  name="storage-mode"
+                  checked={isPersistent()}
+                  onChange={() => changeMode('persistent')}
+                />
+                Verschlüsselt in diesem Browser speichern
+              </label>
+              <label class="radio-label">
+                <input
+                  type="radio"
+                  name="storage-mode"
+                  checked={!isPersistent()}
+                  onChange={() => changeMode('memory')}
+                />
+                Keine Speicherung (beim Schließen des Tabs oder nach {AUTO_LOCK_MINUTES} Minuten Inaktivität alles
+                verwerfen)
+              </label>
+            </div>
+
+            <p class="rf-group-hint">
+              Kein Server: Fälle bleiben in diesem Browser und sind mit der Praxis-Passphrase verschlüsselt. Nach{' '}
+              {AUTO_LOCK_MINUTES} Minuten ohne Eingabe wird automatisch gesperrt und der aktuelle Fall geleert
+              {isPersistent() ? '' : '; ohne Speicherung gehen dabei auch alle in diesem Tab gemerkten Fälle verloren'}.
+              Bitte nur Pseudonyme verwenden, keine Klarnamen.
+            </p>
+
+            {status() && <div class="case-status">{status()}</div>}
+            {unreadableCount() > 0 && (
+              <div class="notice data-error">
+                {unreadableCount() === 1
+                  ? '1 gespeicherter Fall konnte nicht entschlüsselt werden (beschädigt oder unvollständig umgestellt); ' +
+                    'er wird nicht angezeigt und ist nicht in der Sicherung enthalten.'
+                  : `${unreadableCount()} gespeicherte Fälle konnten nicht entschlüsselt werden (beschädigt oder ` +
+                    'unvollständig umgestellt); sie werden nicht angezeigt und sind nicht in der Sicherung enthalten.'}
+              </div>
+            )}
+
+            {isPersistent() && !unlocked() && vaultExists() !== null && (
+              <form
+                class="case-unlock"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  void unlock();
+                }}
+              >
+                <input
+                  type="password"
+                  placeholder={vaultExists() ? 'Passphrase' : `Neue Passphrase (min. ${MIN_PASSPHRASE_LENGTH} Zeichen)`}
+                  value={passphrase()}
+                  autocomplete={vaultExists() ? 'current-password' : 'new-password'}
+                  aria-label="Passphrase"
+                  onInput={(e) => setPassphrase(e.currentTarget.value)}
+                />
+                {!vaultExists() && (
+                  <input
+                    type="password"
+                    placeholder="Passphrase wiederholen"
+                    value={passphraseConfirm()}
+                    autocomplete="new-password"
+                    aria-label="Passphrase wiederholen"
+                    onInput={(e) => setPassphraseConfirm(e.currentTarget.value)}
+                  />
+                )}
+                <button type="submit" disabled={busy() || passphrase() === ''}>
+                  {vaultExists() ? 'Entsperren' : 'Verschlüsselten Speicher einrichten'}
+                </button>
+              </form>
+            )}
+
+            {unlocked() && (
+              <>
+                <div class="case-save-row">
+                  <input
+                    type="text"
+                    placeholder="Pseudonym, z.B. P-0815"
+                    value={pseudonym()}
+                    aria-label="Pseudonym für den Fall"
+                    onInput={(e) => setPseudonym(e.currentTarget.value)}
+                  />
+                  <button type="button" onClick={save} disabled={!props.input() || pseudonym().trim() === ''}>
+                    Aktuellen Fall speichern
+                  </button>
+                  {isPersistent() && (
+                    <button type="button" onClick={() => lock('Gesperrt.')}>
+                      Sperren
+                    </button>
+                  )}
+                </div>
+
+                <input
+                  type="search"
+                  class="case-search"
+                  placeholder="Suchen (Pseudonym oder Risikoband)"
+                  value={query()}
+                  aria-label="Gespeicherte Fälle durchsuchen"
+                  onInput={(e) => setQuery(e.currentTarget.value)}
+                />
+
+                {visibleCases().length === 0 ? (
+                  <p class="case-empty">Keine gespeicherten Fälle.</p>
+                ) : (
+                  <ul class="case-list">
+                    {visibleCases().map((saved) => {
+                      const outdated = getOutdatedDataVersions(saved);
+                      return (
+                        <li class="case-item">
+                          <div class="case-header">
+                            <strong>{saved.pseudonym}</strong>
+                            <span class="case-band">{saved.result?.band ?? 'außerhalb des Gültigkeitsbereichs'}</span>
+                          </div>
+                          <div class="case-meta">
+                            {saved.input.sex === 'female' ? 'weiblich' : 'männlich'}, {saved.input.age} Jahre
+                            {saved.input.tscoreTotalHip !== null ? `, T-Score ${saved.input.tscoreTotalHip}` : ', ohne BMD'}
+                            {' · '}gespeichert {formatTimestamp(saved.updated_at)}
+                          </div>
+                          {outdated.length > 0 && (
+                            <div class="case-outdated">
+                              Mit älteren Daten berechnet:{' '}
+                              {outdated
+                                .map((key) => `${DATA_VERSION_LABELS[key]} ${saved.data_versions[key]}`)
+                                .join(', ')}
+                            </div>
+                          )}
+                          <div class="case-actions">
+                            <button type="button" onClick={() => props.onOpen(saved)}>
+                              Öffnen
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() =>
+                                void run(() => putCase(duplicateSavedCase(saved)), `„${saved.pseudonym}" dupliziert.`)
+                              }
+                            >
+                              Duplizieren
+                            </button>
+                            <button type="button" onClick={() => recompute(saved)}>
+                              Mit aktuellen Daten neu berechnen
+                            </button>
+                            <button type="button" class="case-delete" onClick={() => remove(saved)}>
+                              Löschen
+                            </button>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+
+                <details class="case-backup">
+                  <summary>Verschlüsseltes Backup (Export/Import)</summary>
+                  <p class="rf-group-hint">
+                    Das Backup wird mit einer eigenen Passphrase verschlüsselt; beim Import wird dieselbe Passphrase
+                    benötigt.
+                  </p>
+                  <div class="case-save-row">
+                    <input
+                      type="password"
+                      placeholder="Backup-Passphrase"
+                      value={backupPassphrase()}
+                      autocomplete="new-password"
+                      aria-label="Backup-Passphrase"
+                      onInput={(e) => setBackupPassphrase(e.currentTarget.value)}
+                    />
+                    <button type="button" onClick={() => void exportBackup()} disabled={busy()}>
+                      Backup exportieren
+                    </button>
+                  </div>
+                  <label class="case-import">
+                    Backup importieren:{' '}
+                    <input
+                      type="file"
+                      accept=".json,application/json"
+                      disabled={busy() || backupPassphrase() === ''}
+                      onChange={(e) => {
+                        const file = e.currentTarget.files?.[0];
+                        if (file) void importBackup(file);
+                        e.currentTarget.value = '';
+                      }}
+                    />
+                  </label>
+                </details>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
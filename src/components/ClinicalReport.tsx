@@ -0,0 +1,275 @@
+import { createSignal, onMount, onCleanup } from 'solid-js';
+import type { Accessor } from 'solid-js';
+import type { AssessmentResult, DataVersions, PatientInput, ThresholdResult } from '../data/types';
+import { getBundleLabel } from '../data/bundleRegistry';
+import { collectReportSources } from '../data/clinicalReport';
+import { CONTRAINDICATION_FLAGS } from '../data/contraindications';
+import { FRACTURE_TYPE_LABELS, todayIsoDate } from '../data/events';
+import { formatRequiredFactor, formatTscoreColumn } from '../data/lookup';
+import { getAllRiskFactors, loadRfCatalog } from '../data/rfCatalog';
+import { DATA_VERSION_LABELS, getContextDataVersions } from '../data/savedCases';
+import { getApprovalHint, getMetadataFor, getRegimenText } from '../data/substanceMetadata';
+import { getSubstanceLabel } from '../data/substanceRegistry';
+
+interface ClinicalReportProps {
+  input: Accessor<PatientInput | null>;
+  result: Accessor<AssessmentResult | null>;
+}
+
+const RENAL_LABELS = { ok: 'ausreichend', impaired: 'schwere Niereninsuffizienz', unknown: 'unbekannt' } as const;
+
+function formatDate(iso: string): string {
+  return iso.split('-').reverse().join('.');
+}
+
+/**
+ * Print-only report for the patient chart (hidden on screen, see @media print)
+ * The timestamp is refreshed on every print, including the browser's own print command.
+ */
+export function ClinicalReport(props: ClinicalReportProps) {
+  const [printedAt, setPrintedAt] = createSignal(new Date());
+  const rfLabels = new Map(getAllRiskFactors(loadRfCatalog()).map((rf) => [rf.rf_id, rf.label_de]));
+
+  onMount(() => {
+    const refresh = () => setPrintedAt(new Date());
+    window.addEventListener('beforeprint', refresh);
+    onCleanup(() => window.removeEventListener('beforeprint', refresh));
+  });
+
+  const thresholdRows = (result: AssessmentResult): Array<[string, ThresholdResult]> => [
+    ['3%', result.thresholdDetails.threshold3],
+    ['5%', result.thresholdDetails.threshold5],
+    ['10%', result.thresholdDetails.threshold10],
+  ];
+
+  const contraindicationText = (input: PatientInput): string => {
+    const context = input.contraindications;
+    if (!context) return 'keine angegeben';
+    const renal = context.renal_ok === null ? 'unknown' : context.renal_ok ? 'ok' : 'impaired';
+    const flags = CONTRAINDICATION_FLAGS.filter((flag) => context[flag.key]).map((flag) => flag.label);
+    return [`Nierenfunktion ${RENAL_LABELS[renal]}`, ...flags].join('; ');
+  };
+
+  const eventLines = (input: PatientInput): string[] => {
+    const events = input.events;
+    if (!events) return [];
+    return [
+      ...events.fracture.map((f) => `Fraktur ${FRACTURE_TYPE_LABELS[f.type]}${f.date ? ` am ${formatDate(f.date)}` : ''}`),
+      ...(events.falls_last_12m !== null ? [`Stürze in den letzten 12 Monaten: ${events.falls_last_12m}`] : []),
+      ...(events.oral_gc
+        ? [
+            `Orale Glukokortikoide: ${events.oral_gc.pred_eq_mg_per_day} mg/Tag über ${events.oral_gc.duration_months} Monate` +
+              (events.oral_gc.started_or_dose_increased_within_last_12m ? ', in den letzten 12 Monaten begonnen/erhöht' : ''),
+          ]
+        : []),
+    ];
+  };
+
+  return (
+    <>
+      {props.input() && props.result() && (() => {
+        const input = props.input()!;
+        const result = props.result()!;
+        const plan = result.therapyPlan;
+        const versions = getContextDataVersions(result.bundleVersion);
+        const events = eventLines(input);
+
+        return (
+          <div class="clinical-report">
+            <header class="report-header">
+              <h1>Osteoporose-Risikoeinschätzung nach DVO-Leitlinie 2023</h1>
+              <p>Erstellt am {printedAt().toLocaleString('de-DE', { dateStyle: 'medium', timeStyle: 'short' })}</p>
+            </header>
+
+            <section>
+              <h2>Eingaben</h2>
+              <table class="report-table">
+                <tbody>
+                  <tr><th>Geschlecht</th><td>{input.sex === 'female' ? 'weiblich' : 'männlich'}</td></tr>
+                  <tr><th>Alter</th><td>{input.age} Jahre</td></tr>
+                  <tr>
+                    <th>T-Score Gesamthüfte</th>
+                    <td>{input.tscoreTotalHip !== null ? input.tscoreTotalHip.toFixed(1) : 'nicht gemessen (Berechnung ohne BMD)'}</td>
+                  </tr>
+                  {input.sex === 'female' && (
+                    <tr><th>Postmenopausal</th><td>{input.postmenopausal ? 'ja' : 'nein'}</td></tr>
+                  )}
+                  <tr><th>Zugangsweg</th><td>{result.entry.label_de}</td></tr>
+                  <tr><th>Schwellentabellen</th><td>{getBundleLabel(result.bundleVersion)}</td></tr>
+                  <tr><th>Bezugsdatum</th><td>{formatDate(input.referenceDate ?? todayIsoDate())}</td></tr>
+                  <tr>
+                    <th>Risikofaktoren</th>
+                    <td>
+                      {result.effectiveRfIds.length === 0
+                        ? 'keine'
+                        : result.effectiveRfIds
+                            .map((id) => `${rfLabels.get(id) ?? id}${result.eventRfIds.includes(id) ? ' (aus Ereignis)' : ''}`)
+                            .join('; ')}
+                    </td>
+                  </tr>
+                  {events.length > 0 && <tr><th>Ereignisse</th><td>{events.join('; ')}</td></tr>}
+                  <tr><th>Kontraindikationen</th><td>{contraindicationText(input)}</td></tr>
+                  {input.hasRecentHipFractureSurgery && (
+                    <tr><th>Hüftfraktur-OP</th><td>kürzlich operiert</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </section>
+
+            <section>
+              <h2>Ergebnis: 3-Jahres-Frakturrisiko {result.band}</h2>
+              <table class="report-table">
+                <thead>
+                  <tr>
+                    <th>Schwelle</th>
+                    <th>Altersreihe</th>
+                    <th>T-Score-Spalte</th>
+                    <th>Erforderlicher Faktor</th>
+                    <th>Erreicht</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {thresholdRows(result).map(([label, threshold]) => (
+                    <tr>
+                      <td>{label}</td>
+                      <td>{threshold.ageBin ?? 'N/A'}</td>
+                      <td>{formatTscoreColumn(threshold)}</td>
+                      <td>{formatRequiredFactor(threshold)}</td>
+                      <td>{threshold.reached ? 'ja' : 'nein'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.tscoreMappingNote && <p>{result.tscoreMappingNote}</p>}
+              {result.dataErrors.length > 0 && (
+                <p>Datenfehler (nicht als erreicht gewertet): {result.dataErrors.join('; ')}</p>
+              )}
+              <p>
+                <strong>Top-2 Risikofaktoren:</strong>{' '}
+                {result.top2Rfs.length === 0
+                  ? 'keine'
+                  : result.top2Rfs.map(({ rf, poolSource }) => `${rf.label_de} (RR ${rf.rr_3y}, ${poolSource})`).join('; ')}
+                <br />
+                <strong>Kombinierter Multiplikator:</strong> {result.multiplier.toFixed(2)}
+              </p>
+              {result.discardedRfs.length > 0 && (
+                <p>
+                  <strong>Nicht berücksichtigt:</strong>{' '}
+                  {result.discardedRfs.map(({ rf, reason_de }) => `${rf.label_de} – ${reason_de}`).join('; ')}
+                </p>
+              )}
+            </section>
+
+            <section>
+              <h2>Trigger</h2>
+              <ul>
+                <li>
+                  Imminentes Risiko: {result.triggers.imminent ? 'ja' : 'nein'}
+                  {[
+                    ...result.triggers.imminentRfs.map((rf) => rf.label_de),
+                    ...result.triggers.imminentFromEvents.reasons_de.map((reason) => `Ereignis: ${reason}`),
+                  ].map((reason) => ` – ${reason}`)}
+                </li>
+                <li>
+                  Starke/irreversible RF (Option A): {result.triggers.strongIrreversibleA ? 'ja' : 'nein'}
+                  {result.triggers.strongIrreversibleARfs.map((rf) => ` – ${rf.label_de}`)}
+                </li>
+              </ul>
+            </section>
+
+            <section>
+              <h2>Therapie: {plan.label_de}</h2>
+              {plan.sequence_hint && <p>{plan.sequence_hint}</p>}
+              {plan.required_rationale && <p>Voraussetzung: {plan.required_rationale}</p>}
+              {plan.actions && plan.actions.length > 0 && <p>Maßnahmen: {plan.actions.join('; ')}</p>}
+              <table class="report-table">
+                <tbody>
+                  <tr>
+                    <th>DEGAM</th>
+                    <td>Empfehlungsgrad {plan.guideline_strength.DEGAM.grade} – {plan.guideline_strength.DEGAM.wording_de}</td>
+                  </tr>
+                  <tr>
+                    <th>DVO</th>
+                    <td>Empfehlungsgrad {plan.guideline_strength.DVO.grade} – {plan.guideline_strength.DVO.wording_de}</td>
+                  </tr>
+                </tbody>
+              </table>
+              {plan.deviation_flag === 'DEGAM_SOFTENING' && <p>Hinweis: DEGAM formuliert zurückhaltender als DVO.</p>}
+              {plan.secondary_considerations.map((consideration) => (
+                <p>
+                  Sekundär zu erwägen ({consideration.options.map(getSubstanceLabel).join(', ')}) – Empfehlungsgrad{' '}
+                  {consideration.strength}: {consideration.why_de}
+                </p>
+              ))}
+              {plan.special_notes.map((note) => (
+                <p>Hinweis: {note}</p>
+              ))}
+
+              {result.rankedSubstances.length > 0 && (
+                <table class="report-table">
+                  <thead>
+                    <tr>
+                      <th>#</th>
+                      <th>Substanz</th>
+                      <th>Evidenz</th>
+                      <th>Wirksamkeit</th>
+                      <th>Anwendung</th>
+                      <th>Zulassung</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rankedSubstances.map((substance, index) => {
+                      const metadata = getMetadataFor(substance.substance_id);
+                      return (
+                        <tr>
+                          <td>{index + 1}</td>
+                          <td>{getSubstanceLabel(substance.substance_id)}</td>
+                          <td>{substance.ui.evidenceChip}</td>
+                          <td>{substance.ui.efficacyHint}</td>
+                          <td>{metadata ? getRegimenText(metadata) : '–'}</td>
+                          <td>{(metadata && getApprovalHint(metadata, input.sex)) ?? 'zugelassen'}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+              {result.excludedSubstances.length > 0 && (
+                <p>
+                  <strong>Ausgeschlossen:</strong>{' '}
+                  {result.excludedSubstances
+                    .map((s) => `${getSubstanceLabel(s.substance_id)} – ${s.ui.excludedReason ?? ''}`)
+                    .join('; ')}
+                </p>
+              )}
+            </section>
+
+            <section>
+              <h2>Quellen</h2>
+              <ul class="report-sources">
+                {collectReportSources(result, input.sex).map((source) => (
+                  <li>
+                    {source.ref}: {source.used_for_de.join(', ')}
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section>
+              <h2>Datenversionen</h2>
+              <p>
+                {(Object.keys(versions) as Array<keyof DataVersions>)
+                  .map((key) => `${DATA_VERSION_LABELS[key]} ${versions[key]}`)
+                  .join(' · ')}
+              </p>
+            </section>
+
+            <footer class="report-footer">
+              Entscheidungsunterstützung auf Basis der DVO-Leitlinie 2023; ersetzt nicht die ärztliche Beurteilung.
+            </footer>
+          </div>
+        );
+      })()}
+    </>
+  );
+}
@@ -0,0 +1,27 @@
+import type { SchemaIssue } from '../data/types';
+
+interface DataErrorScreenProps {
+  issues: SchemaIssue[];
+}
+
+export function DataErrorScreen(props: DataErrorScreenProps) {
+  return (
+    <div class="app">
+      <h1>🦴 Risikorechner Osteoporose 🐕</h1>
+      <div class="card data-error-screen">
+        <h2>Datenfehler – keine Berechnung möglich</h2>
+        <p>
+          Die mitgelieferten Leitliniendaten entsprechen nicht dem erwarteten Format.
+          Um falsche Empfehlungen auszuschließen, rechnet die App mit ungültigen Daten nicht.
+        </p>
+        <ul class="data-error-list">
+          {props.issues.map((issue) => (
+            <li>
+              <code>{issue.file}</code> › <code>{issue.path}</code>: {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
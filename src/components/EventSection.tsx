@@ -0,0 +1,162 @@
+import type { Accessor } from 'solid-js';
+import type { EventInput, FractureType, OralGcCourse } from '../data/types';
+import { FRACTURE_TYPE_LABELS } from '../data/events';
+
+interface EventSectionProps {
+  events: Accessor<EventInput>;
+  setEvents: (events: EventInput) => void;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+const EMPTY_GC_COURSE: OralGcCourse = {
+  pred_eq_mg_per_day: 0,
+  duration_months: 0,
+  started_or_dose_increased_within_last_12m: false,
+};
+
+/**
+ * Parse a numeric input value (comma or dot), null if empty/invalid
+ */
+function parseNumberInput(value: string): number | null {
+  if (value.trim() === '') return null;
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+}
+
+export function EventSection(props: EventSectionProps) {
+  const update = (patch: Partial<EventInput>) => {
+    props.setEvents({ ...props.events(), ...patch });
+  };
+
+  const updateGc = (patch: Partial<OralGcCourse>) => {
+    update({ oral_gc: { ...(props.events().oral_gc ?? EMPTY_GC_COURSE), ...patch } });
+  };
+
+  return (
+    <div class="card">
+      <div class="rf-section">
+        <button
+          type="button"
+          class="rf-toggle"
+          onClick={props.onToggleExpanded}
+          aria-expanded={props.isExpanded}
+          aria-label="Ereignisse ein- oder ausblenden"
+        >
+          {props.isExpanded ? '▼' : '▶'} Ereignisse: Frakturen, Stürze, Glukokortikoide (optional)
+        </button>
+
+        {props.isExpanded && (
+          <div class="rf-content event-content">
+            <p class="rf-group-hint">
+              Passende Risikofaktoren werden automatisch ausgewählt; das imminente Frakturrisiko wird aus den Daten abgeleitet.
+            </p>
+
+            <div class="field">
+              <label>Frakturen</label>
+              {props.events().fracture.map((fracture, index) => (
+                <div class="event-row">
+                  <select
+                    class="event-select"
+                    value={fracture.type}
+                    aria-label="Frakturtyp"
+                    onChange={(e) => {
+                      const fractures = [...props.events().fracture];
+                      fractures[index] = { ...fracture, type: e.currentTarget.value as FractureType };
+                      update({ fracture: fractures });
+                    }}
+                  >
+                    {(Object.keys(FRACTURE_TYPE_LABELS) as FractureType[]).map((type) => (
+                      <option value={type}>{FRACTURE_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    class="event-date"
+                    value={fracture.date}
+                    aria-label="Frakturdatum"
+                    onChange={(e) => {
+                      const fractures = [...props.events().fracture];
+                      fractures[index] = { ...fracture, date: e.currentTarget.value };
+                      update({ fracture: fractures });
+                    }}
+                  />
+                  <button
+                    type="button"
+                    class="event-remove"
+                    aria-label="Fraktur entfernen"
+                    onClick={() => update({ fracture: props.events().fracture.filter((_, i) => i !== index) })}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                class="event-add"
+                onClick={() => update({ fracture: [...props.events().fracture, { type: 'other', date: '' }] })}
+              >
+                + Fraktur hinzufügen
+              </button>
+            </div>
+
+            <div class="field">
+              <label for="falls-last-12m">Stürze in den letzten 12 Monaten</label>
+              <input
+                type="number"
+                id="falls-last-12m"
+                min="0"
+                value={props.events().falls_last_12m ?? ''}
+                onInput={(e) => {
+                  const parsed = parseNumberInput(e.currentTarget.value);
+                  update({ falls_last_12m: parsed === null ? null : Math.max(0, Math.floor(parsed)) });
+                }}
+              />
+            </div>
+
+            <div class="field">
+              <label>Orale Glukokortikoide</label>
+              <div class="event-row">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  placeholder="mg Prednisolon/Tag"
+                  aria-label="Prednisolonäquivalent in mg pro Tag"
+                  value={props.events().oral_gc?.pred_eq_mg_per_day || ''}
+                  onInput={(e) => {
+                    const parsed = parseNumberInput(e.currentTarget.value);
+                    if (parsed === null && !props.events().oral_gc?.duration_months) {
+                      update({ oral_gc: null });
+                    } else {
+                      updateGc({ pred_eq_mg_per_day: parsed ?? 0 });
+                    }
+                  }}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  placeholder="Dauer (Monate)"
+                  aria-label="Dauer in Monaten"
+                  value={props.events().oral_gc?.duration_months || ''}
+                  onInput={(e) => {
+                    const parsed = parseNumberInput(e.currentTarget.value);
+                    updateGc({ duration_months: parsed === null ? 0 : Math.floor(parsed) });
+                  }}
+                />
+              </div>
+              <label class="rf-item">
+                <input
+                  type="checkbox"
+                  checked={props.events().oral_gc?.started_or_dose_increased_within_last_12m ?? false}
+                  onChange={(e) => updateGc({ started_or_dose_increased_within_last_12m: e.currentTarget.checked })}
+                />
+                <span>Begonnen oder Dosis erhöht in den letzten 12 Monaten</span>
+              </label>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
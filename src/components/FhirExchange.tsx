@@ -0,0 +1,128 @@
+import { createSignal } from 'solid-js';
+import type { Accessor } from 'solid-js';
+import type { AssessmentResult, FhirImportResult, PatientInput } from '../data/types';
+import { buildFhirBundle, parseFhirBundle, serializeFhirBundle } from '../data/fhir';
+import { getAllRiskFactors, loadRfCatalog } from '../data/rfCatalog';
+import { todayIsoDate } from '../data/events';
+import { downloadTextFile } from '../utils/download';
+import { logger } from '../utils/logger';
+
+interface FhirExchangeProps {
+  input: Accessor<PatientInput | null>;
+  result: Accessor<AssessmentResult | null>;
+  onImport: (state: NonNullable<FhirImportResult['state']>) => void;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+export function FhirExchange(props: FhirExchangeProps) {
+  const [imported, setImported] = createSignal<FhirImportResult | null>(null);
+  const [fileName, setFileName] = createSignal('');
+
+  const rfLabels = new Map(getAllRiskFactors(loadRfCatalog()).map((rf) => [rf.rf_id, rf.label_de]));
+
+  const loadFile = async (file: File) => {
+    setFileName(file.name);
+    try {
+      const parsed = parseFhirBundle(await file.text());
+      setImported(parsed);
+      if (parsed.state) props.onImport(parsed.state);
+    } catch (error) {
+      logger.error('FHIR import failed:', error);
+      setImported({
+        state: null,
+        mappedRfs: [],
+        warnings_de: [],
+        errors_de: [`Datei konnte nicht gelesen werden: ${String(error)}`],
+      });
+    }
+  };
+
+  const exportBundle = () => {
+    const input = props.input();
+    const result = props.result();
+    if (!input || !result) return;
+    downloadTextFile(
+      `osteopo-fhir-${todayIsoDate()}.json`,
+      serializeFhirBundle(buildFhirBundle(input, result)),
+      'application/fhir+json'
+    );
+  };
+
+  return (
+    <div class="card">
+      <div class="rf-section">
+        <button
+          type="button"
+          class="rf-toggle"
+          onClick={props.onToggleExpanded}
+          aria-expanded={props.isExpanded}
+          aria-label="FHIR-Schnittstelle ein- oder ausblenden"
+        >
+          {props.isExpanded ? '▼' : '▶'} Klinikschnittstelle (FHIR R4)
+        </button>
+
+        {props.isExpanded && (
+          <div class="rf-content fhir-content">
+            <p class="rf-group-hint">
+              FHIR-Bundle (JSON) mit Patient, T-Score-Befund der Gesamthüfte und Diagnosen (Condition) laden:
+              Geschlecht, Alter, T-Score und die über die Codetabelle zugeordneten Risikofaktoren werden übernommen,
+              alle übrigen Eingaben zurückgesetzt. Der Export enthält RiskAssessment, Therapievorschläge
+              (MedicationRequest) und CarePlan.
+            </p>
+
+            <div class="fhir-actions">
+              <input
+                type="file"
+                accept=".json,application/json,application/fhir+json"
+                aria-label="FHIR-Bundle auswählen"
+                onChange={(e) => {
+                  const file = e.currentTarget.files?.[0];
+                  if (file) void loadFile(file);
+                  e.currentTarget.value = '';
+                }}
+              />
+              <button type="button" class="trace-download" onClick={exportBundle} disabled={!props.result()}>
+                Als FHIR-Bundle exportieren
+              </button>
+            </div>
+
+            {imported() && imported()!.errors_de.length > 0 && (
+              <div class="notice data-error">
+                <ul>
+                  {imported()!.errors_de.map((error) => (
+                    <li>{error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {imported()?.state && (
+              <div class="fhir-import">
+                <p>
+                  <strong>{fileName()}</strong>: {imported()!.mappedRfs.length} Risikofaktor(en) zugeordnet
+                </p>
+                {imported()!.mappedRfs.length > 0 && (
+                  <ul class="fhir-mapped">
+                    {imported()!.mappedRfs.map((entry) => (
+                      <li>
+                        {rfLabels.get(entry.rf_id) ?? entry.rf_id} ← {entry.source}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {imported()!.warnings_de.length > 0 && (
+                  <ul class="fhir-warnings">
+                    {imported()!.warnings_de.map((warning) => (
+                      <li>{warning}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { createMemo, createSignal } from 'solid-js';
+import type { Accessor } from 'solid-js';
+import type { AssessmentResult, GdtPatientRequest, ImportedGdtRequest, PatientInput } from '../data/types';
+import {
+  buildGdtResult,
+  decodeGdtBytes,
+  encodeGdtText,
+  getActiveGdtRequest,
+  getGdtResultFilename,
+  parseGdtRequest,
+} from '../data/gdt';
+import { downloadFile } from '../utils/download';
+
+interface GdtExchangeProps {
+  input: Accessor<PatientInput | null>;
+  result: Accessor<AssessmentResult | null>;
+  onImport: (request: GdtPatientRequest) => void;
+  caseGeneration: Accessor<number>;
+  isExpanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+const SEX_LABELS = { female: 'weiblich', male: 'männlich' } as const;
+
+export function GdtExchange(props: GdtExchangeProps) {
+  const [imported, setImported] = createSignal<ImportedGdtRequest | null>(null);
+  const [fileName, setFileName] = createSignal('');
+  const [errors, setErrors] = createSignal<string[]>([]);
+  const [warnings, setWarnings] = createSignal<string[]>([]);
+  const [written, setWritten] = createSignal<string | null>(null);
+
+  // Dropped as soon as the case is reset or replaced by another one
+  const request = createMemo(() => getActiveGdtRequest(imported(), props.caseGeneration()));
+  const discarded = () => imported() !== null && request() === null;
+
+  const loadFile = async (file: File) => {
+    setWritten(null);
+    try {
+      const parsed = parseGdtRequest(decodeGdtBytes(new Uint8Array(await file.arrayBuffer())));
+      setErrors(parsed.errors_de);
+      setWarnings(parsed.warnings_de);
+      if (!parsed.request) return;
+      setFileName(file.name);
+      props.onImport(parsed.request);
+      setImported({ request: parsed.request, case_generation: props.caseGeneration() });
+    } catch (error) {
+      setErrors([`Datei konnte nicht gelesen werden: ${String(error)}`]);
+      setWarnings([]);
+    }
+  };
+
+  const writeResult = () => {
+    const current = request();
+    const input = props.input();
+    const result = props.result();
+    if (!current || !input || !result) return;
+    const filename = getGdtResultFilename(current);
+    downloadFile(filename, encodeGdtText(buildGdtResult(current, input, result)), 'text/plain;charset=iso-8859-1');
+    setWritten(filename);
+  };
+
+  const requestSummary = (current: GdtPatientRequest) =>
+    [
+      `Patientennummer ${current.patient_id || '–'}`,
+      current.sex ? SEX_LABELS[current.sex] : 'Geschlecht fehlt',
+      current.age !== null ? `${current.age} Jahre` : 'Alter fehlt',
+      current.tscore !== null ? `T-Score ${current.tscore.toFixed(1)}` : 'ohne T-Score',
+    ].join(' · ');
+
+  return (
+    <div class="card">
+      <div class="rf-section">
+        <button
+          type="button"
+          class="rf-toggle"
+          onClick={props.onToggleExpanded}
+          aria-expanded={props.isExpanded}
+          aria-label="GDT-Schnittstelle ein- oder ausblenden"
+        >
+          {props.isExpanded ? '▼' : '▶'} Praxissoftware (GDT)
+        </button>
+
+        {props.isExpanded && (
+          <div class="rf-content gdt-content">
+            <p class="rf-group-hint">
+              Untersuchungsanforderung der Praxissoftware (GDT-Datei, Satzart 6302) laden: Geschlecht, Alter aus dem
+              Geburtsdatum und – falls übermittelt – der T-Score werden übernommen, alle übrigen Eingaben
+              zurückgesetzt. Das Ergebnis wird als GDT-Datei (Satzart 6310) gespeichert und im Austauschverzeichnis
+              der Praxissoftware abgelegt. Es findet kein Netzwerkzugriff statt.
+            </p>
+
+            <input
+              type="file"
+              accept=".gdt,.GDT"
+              aria-label="GDT-Datei auswählen"
+              onChange={(e) => {
+                const file = e.currentTarget.files?.[0];
+                if (file) void loadFile(file);
+                e.currentTarget.value = '';
+              }}
+            />
+
+            {errors().length > 0 && (
+              <div class="notice data-error">
+                <ul>
+                  {errors().map((error) => (
+                    <li>{error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {discarded() && (
+              <p class="rf-group-hint">
+                Die Anforderung aus {fileName()} gehört zu einem anderen Fall (Eingaben zurückgesetzt oder ersetzt) und
+                wurde verworfen. Für ein GDT-Ergebnis bitte die Anforderung erneut laden.
+              </p>
+            )}
+
+            {request() && (
+              <div class="gdt-request">
+                <p>
+                  <strong>{fileName()}</strong> (Satzart {request()!.record_type}): {requestSummary(request()!)}
+                </p>
+                {warnings().length > 0 && (
+                  <ul class="gdt-warnings">
+                    {warnings().map((warning) => (
+                      <li>{warning}</li>
+                    ))}
+                  </ul>
+                )}
+                <button type="button" class="trace-download" onClick={writeResult} disabled={!props.result()}>
+                  GDT-Ergebnis speichern
+                </button>
+                {!props.result() && (
+                  <p class="rf-group-hint">Das Ergebnis kann gespeichert werden, sobald eine Einstufung vorliegt.</p>
+                )}
+                {written() && (
+                  <p class="gdt-status">
+                    {written()} gespeichert – bitte in das GDT-Austauschverzeichnis der Praxissoftware verschieben.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
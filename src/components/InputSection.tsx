@@ -1,4 +1,7 @@
 import type { Accessor } from 'solid-js';
+import type { ContraindicationContext } from '../data/types';
+import { listBundles } from '../data/bundleRegistry';
+import { CONTRAINDICATION_FLAGS } from '../data/contraindications';
 
 type Sex = 'female' | 'male' | null;
 
@@ -10,13 +13,32 @@ interface InputSectionProps {
   tscoreInputValue: Accessor<string>;
   setTscoreInputValue: (value: string) => void;
   setTscoreTotalHip: (value: number | null) => void;
-  isOutOfScope: Accessor<boolean>;
-  isTscoreOutOfScope: Accessor<boolean>;
+  postmenopausal: Accessor<boolean>;
+  setPostmenopausal: (value: boolean) => void;
+  scopeNotices: Accessor<string[]>;
+  contraindications: Accessor<ContraindicationContext>;
+  setContraindications: (context: ContraindicationContext) => void;
+  hasRecentHipFractureSurgery: Accessor<boolean>;
+  setHasRecentHipFractureSurgery: (value: boolean) => void;
+  bundleVersion: Accessor<string>;
+  setBundleVersion: (version: string) => void;
 }
 
 export function InputSection(props: InputSectionProps) {
   const ageValue = () => props.age();
 
+  const updateContraindication = <K extends keyof ContraindicationContext>(
+    key: K,
+    value: ContraindicationContext[K]
+  ) => {
+    props.setContraindications({ ...props.contraindications(), [key]: value });
+  };
+
+  const renalValue = () => {
+    const renalOk = props.contraindications().renal_ok;
+    return renalOk === null ? 'unknown' : renalOk ? 'ok' : 'impaired';
+  };
+
   return (
     <div class="card">
       <h2>Eingaben</h2>
@@ -50,6 +72,20 @@ export function InputSection(props: InputSectionProps) {
         </div>
       </div>
 
+      {props.sex() === 'female' && (
+        <div class="field">
+          <label class="rf-item">
+            <input
+              type="checkbox"
+              id="postmenopausal"
+              checked={props.postmenopausal()}
+              onChange={(e) => props.setPostmenopausal(e.currentTarget.checked)}
+            />
+            <span>Postmenopausal</span>
+          </label>
+        </div>
+      )}
+
       <div class="field">
         <label for="age">Alter (Jahre)</label>
         <input
@@ -122,17 +158,68 @@ export function InputSection(props: InputSectionProps) {
         />
       </div>
 
-      {props.isOutOfScope() && (
-        <div class="notice">
-          Hinweis: Alter unter 50 Jahren liegt außerhalb des Gültigkeitsbereichs.
-        </div>
-      )}
+      <div class="field">
+        <label class="rf-item">
+          <input
+            type="checkbox"
+            id="hip-fracture-surgery"
+            checked={props.hasRecentHipFractureSurgery()}
+            onChange={(e) => props.setHasRecentHipFractureSurgery(e.currentTarget.checked)}
+          />
+          <span>Kürzlich operativ versorgte Hüftfraktur</span>
+        </label>
+      </div>
 
-      {props.isTscoreOutOfScope() && (
-        <div class="notice">
-          T-Score &gt; 0,0: keine Osteoporose (außerhalb App-Scope)
-        </div>
-      )}
+      <div class="field">
+        <label for="bundle-version">Schwellentabellen</label>
+        <select
+          id="bundle-version"
+          class="contraindication-select"
+          value={props.bundleVersion()}
+          onChange={(e) => props.setBundleVersion(e.currentTarget.value)}
+        >
+          {listBundles().map((entry) => (
+            <option value={entry.bundle_version}>
+              {entry.label_de} – v{entry.bundle_version}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <details class="field contraindication-section">
+        <summary>Kontraindikationen (optional)</summary>
+        <p class="contraindication-hint">
+          Nur harte Ausschlusskriterien; betroffene Optionen werden ausgegraut angezeigt.
+        </p>
+        <label for="renal-ok">Nierenfunktion</label>
+        <select
+          id="renal-ok"
+          class="contraindication-select"
+          value={renalValue()}
+          onChange={(e) => {
+            const value = e.currentTarget.value;
+            updateContraindication('renal_ok', value === 'unknown' ? null : value === 'ok');
+          }}
+        >
+          <option value="unknown">unbekannt</option>
+          <option value="ok">ausreichend</option>
+          <option value="impaired">schwere Niereninsuffizienz</option>
+        </select>
+        {CONTRAINDICATION_FLAGS.map((flag) => (
+          <label class="rf-item">
+            <input
+              type="checkbox"
+              checked={props.contraindications()[flag.key]}
+              onChange={(e) => updateContraindication(flag.key, e.currentTarget.checked)}
+            />
+            <span>{flag.label}</span>
+          </label>
+        ))}
+      </details>
+
+      {props.scopeNotices().map((notice) => (
+        <div class="notice">{notice}</div>
+      ))}
     </div>
   );
 }
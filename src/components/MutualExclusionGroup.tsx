@@ -8,6 +8,7 @@ interface MutualExclusionGroupProps {
   isExpanded: boolean;
   hasSelectedRf: boolean;
   selectedRfIds: Set<string>;
+  autoSelectedRfIds: Set<string>;
   age: number | null;
   onToggleExpanded: () => void;
   onToggleRf: (rfId: string) => void;
@@ -38,6 +39,7 @@ export function MutualExclusionGroup(props: MutualExclusionGroupProps) {
             <RiskFactorItem
               rf={rf}
               isSelected={props.selectedRfIds.has(rf.rf_id)}
+              isAutoSelected={props.autoSelectedRfIds.has(rf.rf_id)}
               onToggle={() => props.onToggleRf(rf.rf_id)}
               age={props.age}
               formatLabel={props.formatRfLabel}
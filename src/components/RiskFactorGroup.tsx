@@ -10,6 +10,7 @@ interface RiskFactorGroupProps {
   megGroups: Record<string, RiskFactor[]>;
   isExpanded: boolean;
   selectedRfIds: Set<string>;
+  autoSelectedRfIds: Set<string>;
   age: number | null;
   onToggleExpanded: () => void;
   onToggleMegExpanded: (megId: string) => void;
@@ -58,6 +59,7 @@ export function RiskFactorGroup(props: RiskFactorGroupProps) {
                 isExpanded={expanded}
                 hasSelectedRf={hasSelectedRf}
                 selectedRfIds={props.selectedRfIds}
+                autoSelectedRfIds={props.autoSelectedRfIds}
                 age={props.age}
                 onToggleExpanded={() => props.onToggleMegExpanded(megId)}
                 onToggleRf={props.onToggleRf}
@@ -70,6 +72,7 @@ export function RiskFactorGroup(props: RiskFactorGroupProps) {
             <RiskFactorItem
               rf={rf}
               isSelected={props.selectedRfIds.has(rf.rf_id)}
+              isAutoSelected={props.autoSelectedRfIds.has(rf.rf_id)}
               onToggle={() => props.onToggleRf(rf.rf_id)}
               age={props.age}
               formatLabel={props.formatRfLabel}
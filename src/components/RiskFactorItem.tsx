@@ -4,6 +4,7 @@ import { shouldShowAgeHint } from '../utils/rfHelpers';
 interface RiskFactorItemProps {
   rf: RiskFactor;
   isSelected: boolean;
+  isAutoSelected?: boolean;
   onToggle: () => void;
   age: number | null;
   formatLabel: (rf: RiskFactor) => string;
@@ -17,6 +18,7 @@ export function RiskFactorItem(props: RiskFactorItemProps) {
       <input
         type="checkbox"
         checked={props.isSelected}
+        disabled={props.isAutoSelected}
         onChange={props.onToggle}
       />
       <span>
@@ -26,6 +28,11 @@ export function RiskFactorItem(props: RiskFactorItemProps) {
             {" "}(nur bis Alter 75)
           </span>
         )}
+        {props.isAutoSelected && (
+          <span class="rf-auto-hint">
+            {" "}(aus Ereignisdaten)
+          </span>
+        )}
       </span>
     </label>
   );
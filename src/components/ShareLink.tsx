@@ -0,0 +1,62 @@
+import { createSignal, createMemo } from 'solid-js';
+import type { Accessor } from 'solid-js';
+import qrcode from 'qrcode-generator';
+
+interface ShareLinkProps {
+  url: Accessor<string>;
+}
+
+/**
+ * Render a URL as scalable QR code SVG (error correction M, automatic size)
+ */
+function createQrSvg(url: string): string {
+  const qr = qrcode(0, 'M');
+  qr.addData(url);
+  qr.make();
+  return qr.createSvgTag({ margin: 2, scalable: true });
+}
+
+export function ShareLink(props: ShareLinkProps) {
+  const [isExpanded, setIsExpanded] = createSignal(false);
+  const [copied, setCopied] = createSignal(false);
+  const qrSvg = createMemo(() => (isExpanded() ? createQrSvg(props.url()) : ''));
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(props.url());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div class="share-link">
+      <button
+        type="button"
+        class="trace-download"
+        onClick={() => setIsExpanded(!isExpanded())}
+        aria-expanded={isExpanded()}
+      >
+        {isExpanded() ? '▼' : '▶'} Fall teilen (Link / QR-Code)
+      </button>
+
+      {isExpanded() && (
+        <div class="share-link-content">
+          <p class="rf-group-hint">
+            Der Link enthält Geschlecht, Alter, T-Score, ausgewählte Risikofaktoren und die Datenversionen – keine
+            Namen oder Ereignisdaten.
+          </p>
+          <div class="share-link-row">
+            <input type="text" readOnly value={props.url()} aria-label="Link zum Fall" onFocus={(e) => e.currentTarget.select()} />
+            <button type="button" onClick={() => void copyLink()}>
+              {copied() ? 'Kopiert ✓' : 'Link kopieren'}
+            </button>
+          </div>
+          <div class="share-link-qr" innerHTML={qrSvg()} aria-label="QR-Code zum Fall" role="img" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+import type {
+  AssessmentResult,
+  BundleBandComparison,
+  DiscardedRf,
+  DVOBundle,
+  LookupResult,
+  PatientInput,
+  RfCatalog,
+  RiskBand,
+  RiskFactor,
+  Sex,
+  TherapyContext,
+  ThresholdResult,
+  ThresholdTable,
+  TriggerStatus,
+  TscoreMapping,
+  ImminentRiskResult,
+} from './types';
+import {
+  loadBundle,
+  ageBin,
+  ageBinForTable,
+  lookupCell,
+  getRowTscoreBins,
+  mapTscoreToBinWithReason,
+  highestReachedBand,
+  requiredFactorOf,
+} from './lookup';
+import { loadRfCatalog, getRiskFactorsForCalculation, getAllRiskFactors, buildMegIndex } from './rfCatalog';
+import {
+  explainTop2Selection,
+  computeCombinedMultiplier,
+  isThresholdReached,
+} from './rfSelection';
+import { deriveTherapyPlan, deriveSpecialNotes, getCandidateSubstances } from './therapy';
+import { rankSubstancesByEvidence } from './substanceRanking';
+import { filterByMinimalContraindications, createEmptyContraindicationContext } from './contraindications';
+import {
+  createEmptyEventInput,
+  deriveEventRiskFactorIds,
+  deriveImminentFractureRisk,
+  mergeEventRiskFactors,
+  todayIsoDate,
+} from './events';
+import { assessEntryPathway } from './entryPathway';
+import { buildDecisionTrace } from './decisionTrace';
+import { listBundles } from './bundleRegistry';
+
+/**
+ * Look up the required factor for one threshold table.
+ * The age row is clamped into this table's own age range; without BMD the
+ * "no_bmd" column is used, with BMD the T-score is clamped to the bins that
+ * have a value in this age row (bins differ per sex/threshold/age). A row
+ * without any T-score value falls back to its "no_bmd" cell.
+ */
+function lookupThreshold(
+  bundle: DVOBundle,
+  sex: Sex,
+  thresholdPercent: 3 | 5 | 10,
+  ageYears: number,
+  tscore: number | null
+): { ageBin: number | null; tscoreMapping: TscoreMapping | null; lookup: LookupResult } {
+  const table = bundle.tables.find(
+    (t: ThresholdTable) => t.sex === sex && t.threshold_percent === thresholdPercent
+  );
+  const tableAgeBin = table ? ageBinForTable(ageYears, table) : null;
+  if (!table || tableAgeBin === null) {
+    return {
+      ageBin: null,
+      tscoreMapping: null,
+      lookup: { status: "not_covered", reason_de: `Tabelle fehlt (${sex}, ${thresholdPercent}%)` },
+    };
+  }
+
+  const rowBins = getRowTscoreBins(table, tableAgeBin);
+  const tscoreMapping = tscore === null || rowBins.length === 0 ? null : mapTscoreToBinWithReason(tscore, rowBins);
+  return {
+    ageBin: tableAgeBin,
+    tscoreMapping,
+    lookup: lookupCell(bundle, sex, thresholdPercent, tableAgeBin, tscoreMapping?.bin ?? "no_bmd"),
+  };
+}
+
+/**
+ * Evaluate one threshold.
+ * When no BMD and no RFs (multiplier = 1.0), preserve original MVP behavior:
+ * - If cell is empty → reached = true (empty cell = already reached)
+ * - If cell is numeric → reached = false (numeric cell = NOT reached by default)
+ * When BMD is provided OR RFs are selected, use multiplier comparison:
+ * - If cell is empty → reached = true (unchanged)
+ * - If cell is numeric → reached = (multiplier >= requiredFactor)
+ * Uncovered cells (missing table/row/column) are never reached.
+ * Note: Uses epsilon tolerance in isThresholdReached to handle floating-point precision
+ */
+function evaluateThreshold(
+  { ageBin, tscoreMapping, lookup }: { ageBin: number | null; tscoreMapping: TscoreMapping | null; lookup: LookupResult },
+  multiplier: number,
+  usedBmd: boolean
+): ThresholdResult {
+  const threshold = !usedBmd && multiplier === 1.0 && lookup.status === "value"
+    ? { reached: false, reason: "Schwelle nicht erreicht (ohne RF)" }
+    : isThresholdReached(lookup, multiplier);
+  return { ageBin, tscoreMapping, lookup, requiredFactor: requiredFactorOf(lookup), ...threshold };
+}
+
+/**
+ * Describe the per-table T-score mapping for the transparency block
+ * e.g. "T-Score -2.8 wurde konservativ gemappt (je Schwelle: 3%→-2.0, 5%→-2.5, 10%→-3.0)"
+ * Returns null without BMD.
+ */
+function describeTscoreMapping(
+  tscore: number | null,
+  thresholds: Array<{ percent: 3 | 5 | 10; result: ThresholdResult }>
+): string | null {
+  if (tscore === null) {
+    return null;
+  }
+  const perThreshold = thresholds
+    .map(({ percent, result }) => `${percent}%→${result.tscoreMapping?.bin.toFixed(1) ?? "–"}`)
+    .join(", ");
+  const allExact = thresholds.every(({ result }) => result.tscoreMapping?.reason === "exact");
+  return allExact
+    ? `T-Score ${tscore.toFixed(1)} entspricht einer Tabellenspalte (je Schwelle: ${perThreshold})`
+    : `T-Score ${tscore.toFixed(1)} wurde konservativ gemappt (je Schwelle: ${perThreshold})`;
+}
+
+/**
+ * Detect therapy triggers over ALL selected RFs (including trigger-only RFs)
+ * IFR is set by RF flags (imminent_rr) or by the structured event rules.
+ */
+function detectTriggers(selectedRfs: RiskFactor[], imminentFromEvents: ImminentRiskResult): TriggerStatus {
+  const imminentRfs = selectedRfs.filter((rf) => rf.flags?.imminent_rr === true);
+  const strongIrreversibleARfs = selectedRfs.filter((rf) => rf.flags?.strong_irreversible_A === true);
+  const imminent = imminentRfs.length > 0 || imminentFromEvents.ifr;
+  const strongIrreversibleA = strongIrreversibleARfs.length > 0;
+
+  return {
+    imminent,
+    strongIrreversibleA,
+    triggerPresent: imminent || strongIrreversibleA,
+    imminentRfs,
+    strongIrreversibleARfs,
+    imminentFromEvents,
+  };
+}
+
+/**
+ * Compute recommendation text based on band and trigger presence
+ */
+function deriveRecommendation(band: RiskBand, triggerPresent: boolean): string {
+  if (band === ">=10%") {
+    return "Therapie indiziert (hoch)";
+  }
+  if (band === "5–<10%") {
+    return "Therapie empfohlen";
+  }
+  if (band === "3–<5%" && triggerPresent) {
+    return "Therapie kann erwogen werden";
+  }
+  return "Keine spezifische Therapie; Prävention / Verlauf";
+}
+
+/**
+ * Run the complete risk and therapy pipeline for one patient
+ *
+ * Pure and framework-free: the UI, scripts and integrations all call this
+ * function, so they compute exactly the same result.
+ *
+ * Pipeline:
+ * 1. Entry pathway and scope check (returns null result if out of scope)
+ * 2. Age group (fracture entry < 50 uses the youngest table row)
+ * 3. Event-derived RFs merged into selection, Top-2 RF selection and combined multiplier
+ * 4. Threshold lookup per table (age row clamped per table, no_bmd or per-table T-score bin)
+ * 5. Threshold comparison and highest reached band
+ * 6. Trigger detection (IFR from RF flags and events, strong/irreversible RF)
+ * 7. Therapy plan, candidate substances, contraindication filter and evidence ranking
+ * 8. Level 2 special notes (depend on the allowed options)
+ * 9. Decision trace (explain payload and ordered rule log)
+ *
+ * @param input - Patient input (sex, age, optional T-score, selected RF IDs, events, contraindications)
+ * @param bundle - Threshold table bundle (default: bundled DVO tables)
+ * @param catalog - RF catalog (default: bundled RF catalog)
+ * @returns AssessmentResult or null if the input is out of scope
+ */
+export function assessPatient(
+  input: PatientInput,
+  bundle: DVOBundle = loadBundle(),
+  catalog: RfCatalog = loadRfCatalog()
+): AssessmentResult | null {
+  const events = input.events ?? createEmptyEventInput();
+  const referenceDate = input.referenceDate ?? todayIsoDate();
+
+  // Entry pathway and scope (age < 50 only via fracture entry, T-Score > 0.0 out of scope)
+  const entry = assessEntryPathway({
+    sex: input.sex,
+    age: input.age,
+    postmenopausal: input.postmenopausal ?? false,
+    tscoreTotalHip: input.tscoreTotalHip,
+    events,
+    referenceDate,
+  });
+  if (!entry.in_scope) {
+    return null;
+  }
+
+  const ageBinValue = ageBin(entry.lookup_age);
+  if (ageBinValue === null) {
+    return null;
+  }
+
+  const tscore = input.tscoreTotalHip;
+  const usedBmd = tscore !== null;
+
+  // Event-derived RFs are merged into the manual selection
+  const eventRfIds = deriveEventRiskFactorIds(events, referenceDate);
+  const effectiveRfIds = mergeEventRiskFactors(input.selectedRfIds, eventRfIds, buildMegIndex(catalog));
+
+  // RF selection and multiplier computation (trigger-only RFs never enter the pool)
+  const selection = explainTop2Selection(effectiveRfIds, getRiskFactorsForCalculation(catalog));
+  const top2Rfs = selection.chosen;
+  const multiplier = computeCombinedMultiplier(top2Rfs);
+  const discardedRfs: DiscardedRf[] = [
+    ...getAllRiskFactors(catalog)
+      .filter((rf) => effectiveRfIds.has(rf.rf_id) && rf.included_in_risk_calc !== true)
+      .map((rf): DiscardedRf => ({
+        rf,
+        reason: "not_in_risk_calc",
+        reason_de: "nicht Teil der Risikoberechnung (nur Trigger/Hinweis)",
+      })),
+    ...selection.discarded,
+  ];
+
+  const threshold3 = evaluateThreshold(
+    lookupThreshold(bundle, input.sex, 3, entry.lookup_age, tscore),
+    multiplier,
+    usedBmd
+  );
+  const threshold5 = evaluateThreshold(
+    lookupThreshold(bundle, input.sex, 5, entry.lookup_age, tscore),
+    multiplier,
+    usedBmd
+  );
+  const threshold10 = evaluateThreshold(
+    lookupThreshold(bundle, input.sex, 10, entry.lookup_age, tscore),
+    multiplier,
+    usedBmd
+  );
+
+  // Uncovered cells are reported as data errors instead of counting as reached
+  const dataErrors = [threshold3, threshold5, threshold10].flatMap((t) =>
+    t.lookup.status === "not_covered" ? [t.lookup.reason_de] : []
+  );
+
+  const band = highestReachedBand(
+    threshold3.reached,
+    threshold5.reached,
+    threshold10.reached
+  ) as RiskBand;
+
+  // Get all RFs from catalog (not just calculation RFs) for trigger detection
+  const selectedRfs = getAllRiskFactors(catalog).filter((rf) => effectiveRfIds.has(rf.rf_id));
+  const triggers = detectTriggers(selectedRfs, deriveImminentFractureRisk(events, referenceDate));
+
+  // Derive therapy plan from risk band and trigger presence
+  const therapyContext: TherapyContext = {
+    imminent_risk: triggers.imminent,
+    has_recent_hip_fracture_surgery: input.hasRecentHipFractureSurgery ?? false,
+  };
+  const basePlan = deriveTherapyPlan(band, triggers.triggerPresent, therapyContext);
+
+  // Get candidate substances, filter by minimal contraindications and rank by evidence
+  const candidateSubstances = getCandidateSubstances(basePlan.strategy);
+  const { allowed, excluded } = filterByMinimalContraindications(
+    candidateSubstances,
+    input.contraindications ?? createEmptyContraindicationContext()
+  );
+  const rankedSubstances = rankSubstancesByEvidence(allowed);
+  const therapyPlan = {
+    ...basePlan,
+    special_notes: deriveSpecialNotes(band, therapyContext, allowed),
+  };
+
+  // Excluded options are ranked too and kept (with reason) for transparent display
+  const excludedReasons = new Map(excluded.map((e) => [e.substance_id, e.reason_de]));
+  const excludedSubstances = rankSubstancesByEvidence(excluded.map((e) => e.substance_id)).map((substance) => ({
+    ...substance,
+    ui: { ...substance.ui, excludedReason: excludedReasons.get(substance.substance_id) },
+  }));
+
+  const result = {
+    bundleVersion: bundle.bundle_version,
+    entry,
+    ageBin: ageBinValue,
+    reached3: threshold3.reached,
+    reached5: threshold5.reached,
+    reached10: threshold10.reached,
+    band,
+    usedBmd,
+    tscoreMappingNote: describeTscoreMapping(tscore, [
+      { percent: 3, result: threshold3 },
+      { percent: 5, result: threshold5 },
+      { percent: 10, result: threshold10 },
+    ]),
+    multiplier,
+    effectiveRfIds: Array.from(effectiveRfIds),
+    eventRfIds,
+    top2Rfs,
+    rfPool: selection.pool,
+    discardedRfs,
+    thresholdDetails: {
+      threshold3,
+      threshold5,
+      threshold10,
+    },
+    triggers,
+    dataErrors,
+    recommendation: deriveRecommendation(band, triggers.triggerPresent),
+    therapyPlan,
+    rankedSubstances,
+    excludedSubstances,
+  };
+
+  return { ...result, trace: buildDecisionTrace(result, input.sex, catalog) };
+}
+
+/**
+ * Recompute an assessment against every registered threshold bundle
+ * Shows whether (and how) the band changes compared to a reference result,
+ * e.g. a saved assessment or the currently selected bundle version.
+ *
+ * @param input - Patient input of the reference assessment
+ * @param reference - Reference result (its band is the comparison baseline)
+ * @param catalog - RF catalog (default: bundled RF catalog)
+ * @returns One entry per registered bundle (registry order)
+ */
+export function compareBundleVersions(
+  input: PatientInput,
+  reference: AssessmentResult,
+  catalog: RfCatalog = loadRfCatalog()
+): BundleBandComparison[] {
+  return listBundles().map((entry) => {
+    const band = assessPatient(input, entry.bundle, catalog)?.band ?? null;
+    return {
+      bundle_version: entry.bundle_version,
+      label_de: entry.label_de,
+      band,
+      changed: band !== reference.band,
+    };
+  });
+}
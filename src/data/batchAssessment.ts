@@ -0,0 +1,257 @@
+import type {
+  BatchColumnMapping,
+  BatchColumnRole,
+  BatchRowResult,
+  DVOBundle,
+  MegIndex,
+  PatientInput,
+  RfCatalog,
+  Sex,
+  ThresholdResult,
+} from './types';
+import { assessPatient } from './assessment';
+import { loadBundle } from './lookup';
+import { buildMegIndex, findMegConflicts, getAllRiskFactors, loadRfCatalog } from './rfCatalog';
+import { validateContextData } from './schemaValidation';
+import { getSubstanceLabel } from './substanceRegistry';
+import type { CsvTable } from '../utils/csv';
+
+/**
+ * Batch assessment of pseudonymised patients from a CSV table
+ *
+ * Every row runs through assessPatient independently; invalid or
+ * out-of-scope rows get an error text instead of aborting the batch.
+ * Context data failing schema validation blocks every row, as in the SPA.
+ */
+
+const SEX_VALUES: Record<string, Sex> = {
+  female: "female", f: "female", w: "female", weiblich: "female",
+  male: "male", m: "male", männlich: "male", maennlich: "male",
+};
+
+const TRUE_VALUES = new Set(["1", "x", "ja", "j", "yes", "y", "true", "wahr"]);
+const FALSE_VALUES = new Set(["", "0", "nein", "n", "no", "false", "falsch", "-"]);
+
+const HEADER_ALIASES: Array<{ role: BatchColumnRole; names: string[] }> = [
+  { role: "sex", names: ["sex", "geschlecht"] },
+  { role: "age", names: ["age", "alter"] },
+  { role: "tscore", names: ["tscore", "t-score", "t_score", "tscore_total_hip", "t-score gesamthüfte"] },
+  { role: "postmenopausal", names: ["postmenopausal", "postmenopausale"] },
+  { role: "rf_list", names: ["rf", "rfs", "rf_ids", "risikofaktoren"] },
+];
+
+/**
+ * Suggest a column mapping from the CSV header
+ * Known names (sex/Geschlecht, age/Alter, ...) and columns named like an
+ * rf_id or RF label are mapped; everything else is ignored.
+ */
+export function suggestBatchMapping(header: string[], catalog: RfCatalog = loadRfCatalog()): BatchColumnMapping {
+  const rfs = getAllRiskFactors(catalog);
+  return header.map((column): BatchColumnRole => {
+    const name = column.trim().toLowerCase();
+    const alias = HEADER_ALIASES.find((a) => a.names.includes(name));
+    if (alias) return alias.role;
+    const rf = rfs.find((r) => r.rf_id.toLowerCase() === name || r.label_de.toLowerCase() === name);
+    return rf ? `rf:${rf.rf_id}` : "ignore";
+  });
+}
+
+/**
+ * Check that a mapping can be run (German messages, empty if valid)
+ */
+export function validateBatchMapping(mapping: BatchColumnMapping): string[] {
+  const errors: string[] = [];
+  const count = (role: BatchColumnRole) => mapping.filter((r) => r === role).length;
+  const labels: Array<[BatchColumnRole, string, boolean]> = [
+    ["sex", "Geschlecht", true],
+    ["age", "Alter", true],
+    ["tscore", "T-Score", false],
+    ["postmenopausal", "Postmenopausal", false],
+  ];
+  for (const [role, label, required] of labels) {
+    if (required && count(role) === 0) errors.push(`Spalte für ${label} fehlt`);
+    if (count(role) > 1) errors.push(`${label} ist mehreren Spalten zugeordnet`);
+  }
+  const rfRoles = mapping.filter((r) => r.startsWith("rf:"));
+  if (new Set(rfRoles).size < rfRoles.length) errors.push("Ein Risikofaktor ist mehreren Spalten zugeordnet");
+  return errors;
+}
+
+function parseDecimal(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+  const parsed = Number(trimmed.replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+/**
+ * Build the engine input of one CSV row
+ */
+function parseRow(
+  cells: string[],
+  mapping: BatchColumnMapping,
+  header: string[],
+  knownRfIds: Set<string>,
+  megIndex: MegIndex
+): { input: PatientInput | null; errors: string[] } {
+  const errors: string[] = [];
+  const cellFor = (role: BatchColumnRole) => {
+    const index = mapping.indexOf(role);
+    return index === -1 ? "" : (cells[index] ?? "").trim();
+  };
+
+  const sex = SEX_VALUES[cellFor("sex").toLowerCase()] ?? null;
+  if (sex === null) errors.push(`Geschlecht ungültig: "${cellFor("sex")}"`);
+
+  const age = parseDecimal(cellFor("age"));
+  if (age === null || Number.isNaN(age)) errors.push(`Alter ungültig: "${cellFor("age")}"`);
+
+  const tscore = parseDecimal(cellFor("tscore"));
+  if (Number.isNaN(tscore)) errors.push(`T-Score ungültig: "${cellFor("tscore")}"`);
+
+  const selectedRfIds = new Set<string>();
+  mapping.forEach((role, index) => {
+    const value = (cells[index] ?? "").trim();
+    if (role === "rf_list") {
+      for (const rfId of value.split(/[,|]/).map((id) => id.trim()).filter(Boolean)) {
+        if (knownRfIds.has(rfId)) selectedRfIds.add(rfId);
+        else errors.push(`Unbekannte RF-ID: ${rfId}`);
+      }
+    } else if (role.startsWith("rf:")) {
+      const flag = value.toLowerCase();
+      if (TRUE_VALUES.has(flag)) selectedRfIds.add(role.slice(3));
+      else if (!FALSE_VALUES.has(flag)) errors.push(`${header[index]}: Wert "${value}" ist weder ja noch nein`);
+    }
+  });
+
+  for (const conflict of findMegConflicts(selectedRfIds, megIndex)) {
+    errors.push(`Sich gegenseitig ausschließende RF: ${conflict.join(" / ")}`);
+  }
+
+  if (errors.length > 0 || sex === null || age === null || Number.isNaN(age)) {
+    return { input: null, errors };
+  }
+
+  return {
+    input: {
+      sex,
+      age,
+      tscoreTotalHip: tscore,
+      selectedRfIds,
+      postmenopausal: TRUE_VALUES.has(cellFor("postmenopausal").toLowerCase()),
+    },
+    errors,
+  };
+}
+
+/**
+ * Run every CSV row through the engine
+ *
+ * @param table - Parsed CSV (header + rows)
+ * @param mapping - Column role per header column
+ * @param bundle - Threshold table bundle (default: bundled DVO tables)
+ * @param catalog - RF catalog (default: bundled RF catalog)
+ * @returns One result per row; rows with errors have result null or carry data errors
+ *          (every row fails if the context data is invalid)
+ */
+export function runBatchAssessment(
+  table: CsvTable,
+  mapping: BatchColumnMapping,
+  bundle: DVOBundle = loadBundle(),
+  catalog: RfCatalog = loadRfCatalog()
+): BatchRowResult[] {
+  const dataIssues = validateContextData();
+  if (dataIssues.length > 0) {
+    const [first] = dataIssues;
+    const error =
+      `Datenfehler in den Leitliniendaten (${dataIssues.length} Schemafehler, u.a. ` +
+      `${first.file} › ${first.path}: ${first.message}) – keine Berechnung`;
+    return table.rows.map((cells, index) => ({ row: index + 1, cells, result: null, errors: [error] }));
+  }
+
+  const knownRfIds = new Set(getAllRiskFactors(catalog).map((rf) => rf.rf_id));
+  const megIndex = buildMegIndex(catalog);
+
+  return table.rows.map((cells, index) => {
+    const row = index + 1;
+    const { input, errors } = parseRow(cells, mapping, table.header, knownRfIds, megIndex);
+    if (input === null) {
+      return { row, cells, result: null, errors };
+    }
+    try {
+      const result = assessPatient(input, bundle, catalog);
+      if (result === null) {
+        return {
+          row,
+          cells,
+          result: null,
+          errors: ["außerhalb des Gültigkeitsbereichs (Alter < 50 ohne Frakturzugang oder T-Score > 0,0)"],
+        };
+      }
+      return { row, cells, result, errors: result.dataErrors.map((e) => `Datenfehler: ${e}`) };
+    } catch (error) {
+      return { row, cells, result: null, errors: [`Berechnung fehlgeschlagen: ${String(error)}`] };
+    }
+  });
+}
+
+/**
+ * Result columns appended to the original CSV columns
+ */
+export const BATCH_RESULT_COLUMNS = [
+  "band",
+  "faktor_3",
+  "faktor_5",
+  "faktor_10",
+  "multiplikator",
+  "imminent",
+  "stark_irreversibel",
+  "trigger",
+  "strategie",
+  "top_substanz",
+  "fehler",
+];
+
+/**
+ * Build the export rows (header + one row per input row)
+ * Decimal separator follows the CSV delimiter (";" → decimal comma).
+ */
+export function buildBatchResultRows(table: CsvTable, results: BatchRowResult[]): string[][] {
+  const decimalComma = table.delimiter === ";";
+  const formatNumber = (value: number) => {
+    const text = String(Math.round(value * 100) / 100);
+    return decimalComma ? text.replace(".", ",") : text;
+  };
+  const formatFlag = (value: boolean) => (value ? "ja" : "nein");
+  const formatFactor = (threshold: ThresholdResult) =>
+    threshold.lookup.status === "value"
+      ? formatNumber(threshold.lookup.required_factor)
+      : threshold.lookup.status === "empty_reached"
+      ? "leer"
+      : "nicht abgedeckt";
+
+  const rows = results.map(({ cells, result, errors }) => {
+    const original = table.header.map((_, index) => cells[index] ?? "");
+    const error = errors.join("; ");
+    if (result === null) {
+      return [...original, ...BATCH_RESULT_COLUMNS.slice(0, -1).map(() => ""), error];
+    }
+    const topSubstance = result.rankedSubstances[0]?.substance_id;
+    return [
+      ...original,
+      result.band,
+      formatFactor(result.thresholdDetails.threshold3),
+      formatFactor(result.thresholdDetails.threshold5),
+      formatFactor(result.thresholdDetails.threshold10),
+      formatNumber(result.multiplier),
+      formatFlag(result.triggers.imminent),
+      formatFlag(result.triggers.strongIrreversibleA),
+      formatFlag(result.triggers.triggerPresent),
+      result.therapyPlan.strategy,
+      topSubstance ? getSubstanceLabel(topSubstance) : "",
+      error,
+    ];
+  });
+
+  return [[...table.header, ...BATCH_RESULT_COLUMNS], ...rows];
+}
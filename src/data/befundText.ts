@@ -0,0 +1,124 @@
+import type {
+  AssessmentResult,
+  BefundTemplates,
+  BefundTemplateVariant,
+  PatientInput,
+  RiskBand,
+} from "./types";
+import { getBundleLabel } from "./bundleRegistry";
+import { getSubstanceLabel } from "./substanceRegistry";
+
+export const BEFUND_TEMPLATE_VARIANTS: Array<{ key: BefundTemplateVariant; label: string }> = [
+  { key: "short", label: "Kurz" },
+  { key: "long", label: "Ausführlich" },
+  { key: "bullet", label: "Stichpunkte" },
+];
+
+/**
+ * Built-in templates: {platzhalter} is replaced by the value,
+ * [ ... ] is dropped entirely if a placeholder inside it is empty
+ */
+export const DEFAULT_BEFUND_TEMPLATES: BefundTemplates = {
+  short:
+    "3-J-Frakturrisiko {risiko} (DVO 2023, {bmd})[ bei {rf}]; Empfehlung: {strategie}[ ({empfehlungsgrad})]",
+  long:
+    "{geschlecht}, {alter} Jahre[, T-Score Gesamthüfte {tscore}]. " +
+    "Geschätztes 3-Jahres-Frakturrisiko nach DVO-Leitlinie 2023 {risiko} ({bmd}, {tabellen})." +
+    "[ Berücksichtigte Risikofaktoren: {rf} (Multiplikator {multiplikator}).]" +
+    "[ Trigger: {trigger}.]" +
+    " Empfehlung: {strategie}[ ({empfehlungsgrad})].[ {therapiehinweis}.]" +
+    "[ Bevorzugte Optionen: {substanzen}.]",
+  bullet:
+    "- 3-J-Frakturrisiko: {risiko} (DVO 2023, {bmd})\n" +
+    "[- T-Score Gesamthüfte: {tscore}\n]" +
+    "[- Risikofaktoren: {rf}\n]" +
+    "[- Trigger: {trigger}\n]" +
+    "- Empfehlung: {strategie}[ ({empfehlungsgrad})]\n" +
+    "[- Optionen: {substanzen}\n]",
+};
+
+export const BEFUND_PLACEHOLDERS: Array<{ key: string; label_de: string }> = [
+  { key: "risiko", label_de: "Risikoband, z. B. ≥10 %" },
+  { key: "bmd", label_de: "„mit BMD“ oder „ohne BMD“" },
+  { key: "tscore", label_de: "T-Score Gesamthüfte (leer ohne Messung)" },
+  { key: "geschlecht", label_de: "Frau/Mann" },
+  { key: "alter", label_de: "Alter in Jahren" },
+  { key: "rf", label_de: "Top-2 Risikofaktoren" },
+  { key: "multiplikator", label_de: "kombinierter RF-Multiplikator" },
+  { key: "trigger", label_de: "aktive Trigger" },
+  { key: "strategie", label_de: "Therapiestrategie" },
+  { key: "empfehlungsgrad", label_de: "z. B. DEGAM B / DVO A" },
+  { key: "therapiehinweis", label_de: "Hinweis zur Therapiesequenz" },
+  { key: "substanzen", label_de: "erste drei zugelassene Substanzen" },
+  { key: "tabellen", label_de: "Version der Schwellentabellen" },
+  { key: "datum", label_de: "heutiges Datum" },
+];
+
+const BAND_TEXT: Record<RiskBand, string> = {
+  "<3%": "<3 %",
+  "3–<5%": "3–<5 %",
+  "5–<10%": "5–<10 %",
+  ">=10%": "≥10 %",
+};
+
+const MAX_LISTED_SUBSTANCES = 3;
+
+function formatDecimal(value: number, digits: number): string {
+  return value.toLocaleString("de-DE", { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+/**
+ * Collect the placeholder values for the current result (empty string = not applicable)
+ */
+export function buildBefundValues(
+  input: PatientInput,
+  result: AssessmentResult,
+  now: Date = new Date()
+): Record<string, string> {
+  const plan = result.therapyPlan;
+  const grades =
+    plan.guideline_strength.DEGAM.grade === "-" && plan.guideline_strength.DVO.grade === "-"
+      ? ""
+      : `DEGAM ${plan.guideline_strength.DEGAM.grade} / DVO ${plan.guideline_strength.DVO.grade}`;
+  const triggers = [
+    ...(result.triggers.imminent ? ["imminentes Frakturrisiko"] : []),
+    ...(result.triggers.strongIrreversibleA ? ["starker/irreversibler RF"] : []),
+  ];
+
+  return {
+    risiko: BAND_TEXT[result.band],
+    bmd: result.usedBmd ? "mit BMD" : "ohne BMD",
+    tscore: input.tscoreTotalHip !== null ? formatDecimal(input.tscoreTotalHip, 1) : "",
+    geschlecht: input.sex === "female" ? "Frau" : "Mann",
+    alter: String(input.age),
+    rf: result.top2Rfs.map(({ rf }) => rf.label_de).join(" und "),
+    multiplikator: result.top2Rfs.length > 0 ? formatDecimal(result.multiplier, 2) : "",
+    trigger: triggers.join(", "),
+    strategie: plan.label_de,
+    empfehlungsgrad: grades,
+    therapiehinweis: plan.sequence_hint ? plan.sequence_hint[0].toUpperCase() + plan.sequence_hint.slice(1) : "",
+    substanzen: result.rankedSubstances
+      .slice(0, MAX_LISTED_SUBSTANCES)
+      .map((substance) => getSubstanceLabel(substance.substance_id))
+      .join(", "),
+    tabellen: getBundleLabel(result.bundleVersion),
+    datum: now.toLocaleDateString("de-DE"),
+  };
+}
+
+/**
+ * Render a Befund template
+ * Optional segments [ ... ] are dropped if one of their placeholders is empty;
+ * unknown placeholders are left untouched so typos stay visible.
+ */
+export function renderBefundTemplate(template: string, values: Record<string, string>): string {
+  const fill = (text: string) =>
+    text.replace(/\{([a-z_]+)\}/g, (match, key: string) => (key in values ? values[key] : match));
+
+  const withOptionals = template.replace(/\[([^\[\]]*)\]/g, (_match, segment: string) => {
+    const keys = Array.from(segment.matchAll(/\{([a-z_]+)\}/g), (m) => m[1]);
+    return keys.some((key) => key in values && values[key] === "") ? "" : segment;
+  });
+
+  return fill(withOptionals).trim();
+}
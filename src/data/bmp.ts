@@ -0,0 +1,159 @@
+import type { BmpEntry, Sex, SubstanceAdministration } from './types';
+import { getApprovalHint, getMetadataFor } from './substanceMetadata';
+import { getSubstanceLabel } from './substanceRegistry';
+
+/**
+ * Bundeseinheitlicher Medikationsplan (BMP) entries for a chosen substance
+ *
+ * The BMP is an XML document <MP> with patient <P>, author <A> and blocks <S>
+ * holding medication entries <M>; the same XML without whitespace is the content
+ * of the 2D barcode (DataMatrix, ISO 8859-1) printed on the plan.
+ * Entries carry the active ingredient <W> instead of a PZN, since the product is
+ * chosen by the prescriber. Dosing is written as free text (t) with frequency
+ * and route, since most schedules are not daily.
+ *
+ * The payload carries no patient block <P>: the practice software merges the
+ * entry into the patient's existing plan and renders the barcode itself.
+ * Texts are restricted to ISO 8859-1, the character set of the BMP barcode.
+ */
+
+export const BMP_VERSION = "026";
+export const BMP_AUTHOR = "osteopo (DVO 2023)";
+const BMP_REASON = "Osteoporose";
+const MAX_DOSING_LENGTH = 20;
+const MAX_HINT_LENGTH = 80;
+
+const FREQUENCY_TEXT: Record<string, string> = {
+  daily: "1x täglich",
+  weekly: "1x wöchentlich",
+  monthly: "1x monatlich",
+  quarterly: "alle 3 Monate",
+  six_monthly: "alle 6 Monate",
+  yearly: "1x jährlich",
+};
+
+const ROUTE_TEXT: Record<string, string> = {
+  oral: "oral",
+  iv: "i.v.",
+  sc: "s.c.",
+};
+
+const DOSAGE_FORM_TEXT: Record<string, string> = {
+  oral: "Tabl.",
+  iv: "Inf.",
+  sc: "Inj.",
+};
+
+// Typographic characters of the notes outside ISO 8859-1
+const BMP_CHAR_REPLACEMENTS: Record<string, string> = {
+  "–": "-", "—": "-", "‑": "-", "≥": ">=", "≤": "<=", "→": "->", "„": "\"", "“": "\"", "”": "\"", "‘": "'", "’": "'", "…": "...",
+};
+
+/**
+ * Map text to the BMP character set (ISO 8859-1); unknown characters become "?"
+ */
+function toBmpCharset(text: string): string {
+  return Array.from(text, (char) => BMP_CHAR_REPLACEMENTS[char] ?? (char.charCodeAt(0) <= 0xff ? char : "?")).join("");
+}
+
+/**
+ * Encode the barcode payload as ISO 8859-1 bytes for the download
+ */
+export function encodeBmpPayload(payload: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(toBmpCharset(payload), (char) => char.charCodeAt(0));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 3)}...`;
+}
+
+function xmlElement(name: string, attributes: Record<string, string | undefined>, children = ""): string {
+  const attrs = Object.entries(attributes)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== "")
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join("");
+  return children ? `<${name}${attrs}>${children}</${name}>` : `<${name}${attrs}/>`;
+}
+
+function formatBmpTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+/**
+ * Derive the free-text dosing schedule from frequency and route
+ * Returns null for preparation-dependent ("mixed") administration.
+ */
+export function getBmpDosingText(administration: SubstanceAdministration): string | null {
+  const frequency = FREQUENCY_TEXT[administration.frequency_default];
+  const route = ROUTE_TEXT[administration.route];
+  if (!frequency || !route) return null;
+  return truncate(`${frequency} ${route}`, MAX_DOSING_LENGTH);
+}
+
+/**
+ * Build the BMP entry (<M> fragment and barcode payload) for one substance
+ *
+ * @param substanceId - Substance chosen from the ranked options
+ * @param sex - Patient sex (approval hint)
+ * @param now - Creation time of the plan
+ * @param instanceId - 32 hex characters identifying the plan instance
+ */
+export function buildBmpEntry(
+  substanceId: string,
+  sex: Sex | null,
+  now: Date = new Date(),
+  instanceId: string = crypto.randomUUID().replace(/-/g, "").toUpperCase()
+): BmpEntry {
+  const warnings_de: string[] = [];
+  const metadata = getMetadataFor(substanceId);
+  const administration = metadata?.administration;
+
+  const dosing = administration ? getBmpDosingText(administration) : null;
+  if (!dosing) {
+    warnings_de.push("Dosierschema präparatabhängig – bitte im Medikationsplan ergänzen.");
+  }
+
+  const offLabel = !!metadata && !!sex && !metadata.approval[sex].approved;
+  if (offLabel) {
+    warnings_de.push(getApprovalHint(metadata, sex) ?? "Off-Label-Anwendung.");
+  }
+  const hint = [offLabel ? "Off-Label." : null, metadata?.notes_de]
+    .filter((text): text is string => !!text)
+    .join(" ");
+
+  const fragment = xmlElement(
+    "M",
+    {
+      fd: administration ? DOSAGE_FORM_TEXT[administration.route] : undefined,
+      t: dosing ?? "präparatabhängig",
+      i: hint ? truncate(toBmpCharset(hint), MAX_HINT_LENGTH) : undefined,
+      r: BMP_REASON,
+    },
+    xmlElement("W", { w: toBmpCharset(getSubstanceLabel(substanceId)) })
+  );
+
+  const payload = xmlElement(
+    "MP",
+    { v: BMP_VERSION, U: instanceId, l: "de-DE" },
+    xmlElement("A", { n: BMP_AUTHOR, t: formatBmpTimestamp(now) }) + xmlElement("S", {}, fragment)
+  );
+
+  return { substance_id: substanceId, fragment, payload, warnings_de };
+}
+
+export function getBmpFilename(substanceId: string, now: Date = new Date()): string {
+  return `bmp-${substanceId}-${formatBmpTimestamp(now).slice(0, 10)}.xml`;
+}
@@ -0,0 +1,59 @@
+import type { BundleRegistryEntry, DVOBundle } from './types';
+import bundleV1_0_0 from '../../context/DVO_Threshold_Tables_Bundle_v1.0.0.json';
+
+/**
+ * All registered threshold-table bundles
+ * Old bundles are kept for reproducibility (see bundle README.how_to_extend):
+ * a new DVO version or a Langfassung table set is added as a new JSON file
+ * in context/ plus one entry here.
+ */
+const BUNDLES: BundleRegistryEntry[] = [
+  {
+    bundle_version: (bundleV1_0_0 as DVOBundle).bundle_version,
+    file: "DVO_Threshold_Tables_Bundle_v1.0.0.json",
+    label_de: "DVO 2023 Kurzfassung (V2.2)",
+    bundle: bundleV1_0_0 as DVOBundle,
+  },
+];
+
+/**
+ * Bundle version used when none is selected
+ */
+export const DEFAULT_BUNDLE_VERSION = "1.0.0";
+
+/**
+ * Get all registered bundles (registry order)
+ */
+export function listBundles(): BundleRegistryEntry[] {
+  return BUNDLES;
+}
+
+/**
+ * Get a bundle by version
+ * Returns null if the version is not registered
+ *
+ * @param bundleVersion - Bundle version, e.g. "1.0.0"
+ * @returns DVOBundle or null if not found
+ */
+export function getBundle(bundleVersion: string): DVOBundle | null {
+  return BUNDLES.find((entry) => entry.bundle_version === bundleVersion)?.bundle ?? null;
+}
+
+/**
+ * Get the default bundle
+ */
+export function getDefaultBundle(): DVOBundle {
+  const bundle = getBundle(DEFAULT_BUNDLE_VERSION);
+  if (!bundle) {
+    throw new Error(`Default threshold bundle ${DEFAULT_BUNDLE_VERSION} is not registered`);
+  }
+  return bundle;
+}
+
+/**
+ * Get the display label of a bundle version (falls back to the version)
+ */
+export function getBundleLabel(bundleVersion: string): string {
+  const entry = BUNDLES.find((e) => e.bundle_version === bundleVersion);
+  return entry ? `${entry.label_de} – v${entry.bundle_version}` : `v${bundleVersion}`;
+}
@@ -0,0 +1,43 @@
+import type { AssessmentResult, ReportSource, Sex } from "./types";
+import { getBundle, getDefaultBundle } from "./bundleRegistry";
+import { getSubstanceLabel } from "./substanceRegistry";
+
+const SEX_LABELS: Record<Sex, string> = { female: "Frauen", male: "Männer" };
+
+/**
+ * Collect the sources cited by an assessment for the report, grouped by reference:
+ * threshold tables of the used bundle, effective and chosen RFs, ranked substances
+ */
+export function collectReportSources(result: AssessmentResult, sex: Sex): ReportSource[] {
+  const sources = new Map<string, string[]>();
+  const cite = (ref: string | undefined, usedFor: string) => {
+    if (!ref) return;
+    const usages = sources.get(ref) ?? [];
+    if (!usages.includes(usedFor)) usages.push(usedFor);
+    sources.set(ref, usages);
+  };
+
+  const bundle = getBundle(result.bundleVersion) ?? getDefaultBundle();
+  bundle.tables
+    .filter((table) => table.sex === sex)
+    .forEach((table) => {
+      if (!table.source) return;
+      cite(
+        `${table.source.document}, S. ${table.source.pages.join(", ")}`,
+        `Schwellentabelle ${table.threshold_percent}% (${SEX_LABELS[sex]})`
+      );
+    });
+
+  const rfs = [
+    ...result.top2Rfs.map(({ rf }) => rf),
+    ...result.triggers.imminentRfs,
+    ...result.triggers.strongIrreversibleARfs,
+  ];
+  rfs.forEach((rf) => cite(rf.source_ref, rf.label_de));
+
+  result.rankedSubstances.forEach((substance) =>
+    (substance.ui.sourceRefs ?? []).forEach((ref) => cite(ref, getSubstanceLabel(substance.substance_id)))
+  );
+
+  return Array.from(sources, ([ref, used_for_de]) => ({ ref, used_for_de }));
+}
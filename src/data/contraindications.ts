@@ -0,0 +1,111 @@
+import type { ContraindicationContext, ContraindicationFilterResult, ContraindicationFlag, ExcludedOption } from './types';
+import { getRegistryEntry } from './substanceRegistry';
+import { getMetadataFor } from './substanceMetadata';
+
+/**
+ * Create an empty contraindication context (nothing known, nothing excluded)
+ */
+export function createEmptyContraindicationContext(): ContraindicationContext {
+  return {
+    renal_ok: null,
+    severe_esophageal_disease: false,
+    unable_to_remain_upright: false,
+    hypocalcemia_uncontrolled: false,
+    recent_cv_event_12m: false,
+    bone_malignancy_or_skeletal_rt: false,
+  };
+}
+
+/**
+ * German labels of the boolean contraindication flags (input form and report)
+ */
+export const CONTRAINDICATION_FLAGS: Array<{ key: ContraindicationFlag; label: string }> = [
+  { key: "severe_esophageal_disease", label: "Schwere Ösophaguserkrankung" },
+  { key: "unable_to_remain_upright", label: "Kann nicht aufrecht sitzen/stehen (≥30 Min.)" },
+  { key: "hypocalcemia_uncontrolled", label: "Unkorrigierte Hypokalzämie" },
+  { key: "recent_cv_event_12m", label: "Herzinfarkt oder Schlaganfall in den letzten 12 Monaten" },
+  { key: "bone_malignancy_or_skeletal_rt", label: "Knochentumor oder Skelettbestrahlung" },
+];
+
+/**
+ * Check if a substance is an oral bisphosphonate
+ * Derived from data: drug_class (Registry) + route (Administration Metadata).
+ * Substances with route "mixed" (e.g. ibandronate oral/i.v.) are not excluded,
+ * since a parenteral form remains available.
+ */
+export function isOralBisphosphonate(substanceId: string): boolean {
+  const registryEntry = getRegistryEntry(substanceId);
+  const metadata = getMetadataFor(substanceId);
+  return registryEntry?.drug_class === "bisphosphonate" && metadata?.administration.route === "oral";
+}
+
+/**
+ * Get the exclusion reason for a single option, or null if allowed
+ * Rule order follows the pseudocode (first matching rule wins)
+ */
+function getExclusionReason(substanceId: string, context: ContraindicationContext): string | null {
+  if (isOralBisphosphonate(substanceId)) {
+    if (context.severe_esophageal_disease || context.unable_to_remain_upright) {
+      return "Schwere Ösophaguserkrankung oder fehlende Aufrichtigkeit (oral kontraindiziert)";
+    }
+  }
+
+  if (substanceId === "zoledronate") {
+    // renal_ok === null means unknown → do not exclude
+    if (context.renal_ok === false) {
+      return "Schwere Niereninsuffizienz (Zoledronat kontraindiziert)";
+    }
+    if (context.hypocalcemia_uncontrolled) {
+      return "Unkorrigierte Hypokalzämie (vorher korrigieren)";
+    }
+  }
+
+  if (substanceId === "denosumab") {
+    if (context.hypocalcemia_uncontrolled) {
+      return "Unkorrigierte Hypokalzämie (vorher korrigieren)";
+    }
+  }
+
+  if (substanceId === "romosozumab") {
+    if (context.recent_cv_event_12m) {
+      return "Frisches kardiovaskuläres Ereignis (<12 Monate)";
+    }
+  }
+
+  if (substanceId === "teriparatide") {
+    if (context.bone_malignancy_or_skeletal_rt) {
+      return "Knochentumor oder Skelettbestrahlung";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Filter therapy options by HARD show-stopper contraindications only
+ * Everything else is advisory (shared decision), not exclusionary.
+ *
+ * Reference: DVO_contraindication_pseudocode_v1.txt (filter_by_minimal_contraindications)
+ *
+ * @param options - Candidate substance IDs
+ * @param context - Contraindication context
+ * @returns Allowed substance IDs (input order preserved) and excluded options with reason
+ */
+export function filterByMinimalContraindications(
+  options: string[],
+  context: ContraindicationContext
+): ContraindicationFilterResult {
+  const allowed: string[] = [];
+  const excluded: ExcludedOption[] = [];
+
+  for (const option of options) {
+    const reason = getExclusionReason(option, context);
+    if (reason) {
+      excluded.push({ substance_id: option, reason_de: reason });
+    } else {
+      allowed.push(option);
+    }
+  }
+
+  return { allowed, excluded };
+}
@@ -0,0 +1,209 @@
+import type {
+  AssessmentResult,
+  DecisionTrace,
+  ExplainPayload,
+  RfCatalog,
+  Sex,
+  ThresholdResult,
+  TraceStage,
+  TraceStep,
+} from './types';
+import { getAllRiskFactors } from './rfCatalog';
+import { TSCORE_MAPPING_REASON_LABELS } from './lookup';
+import { getSubstanceLabel } from './substanceRegistry';
+
+type TraceInput = Omit<AssessmentResult, "trace">;
+
+/**
+ * Format a factor for the German trace texts (two decimals)
+ */
+function formatFactor(value: number): string {
+  return value.toFixed(2);
+}
+
+/**
+ * Describe the consulted cell of one threshold table
+ */
+function describeLookup(sex: Sex, percent: 3 | 5 | 10, threshold: ThresholdResult): string {
+  const column = threshold.tscoreMapping
+    ? `T-Score-Spalte ${threshold.tscoreMapping.bin.toFixed(1)} (${TSCORE_MAPPING_REASON_LABELS[threshold.tscoreMapping.reason]})`
+    : "Spalte ohne BMD";
+  const cell =
+    threshold.lookup.status === "value"
+      ? `Wert ${formatFactor(threshold.lookup.required_factor)}`
+      : threshold.lookup.status === "empty_reached"
+      ? "leeres Feld (Schwelle ohne RF erreicht)"
+      : `nicht abgedeckt: ${threshold.lookup.reason_de}`;
+  return `Tabelle ${sex} ${percent}%, Altersreihe ${threshold.ageBin ?? "–"}, ${column} → ${cell}`;
+}
+
+/**
+ * Build the explain payload defined by the risk engine pseudocode
+ *
+ * Reference: DVO_Osteoporosis_Risk_Engine_Pseudocode_v1.txt (explain)
+ */
+function buildExplainPayload(result: TraceInput): ExplainPayload {
+  return {
+    bundle_version: result.bundleVersion,
+    chosen_risk_factors: result.top2Rfs.map(({ rf, poolSource }) => ({
+      rf_id: rf.rf_id,
+      rr_3y: rf.rr_3y,
+      pool_source: poolSource,
+    })),
+    combined_multiplier: result.multiplier,
+    lookup_mode: result.usedBmd ? "WITH_BMD" : "WITHOUT_BMD",
+    required_multipliers: {
+      "3%": result.thresholdDetails.threshold3.requiredFactor,
+      "5%": result.thresholdDetails.threshold5.requiredFactor,
+      "10%": result.thresholdDetails.threshold10.requiredFactor,
+    },
+    risk_band: result.band,
+    imminent_fracture_risk: result.triggers.imminent,
+    strong_irreversible_rf: result.triggers.strongIrreversibleA,
+  };
+}
+
+/**
+ * Build the ordered decision trace of one assessment
+ *
+ * Every rule that fired is logged in evaluation order: entry pathway,
+ * event-derived RFs, RF pool and discarded RFs, multiplier, consulted table
+ * cells, threshold comparisons, band, triggers, therapy rule and
+ * contraindication exclusions.
+ *
+ * @param result - Assessment result (without trace)
+ * @param sex - Sex used for the table lookup
+ * @param catalog - RF catalog (labels of event-derived and trigger-only RFs)
+ * @returns Explain payload and ordered trace steps
+ */
+export function buildDecisionTrace(result: TraceInput, sex: Sex, catalog: RfCatalog): DecisionTrace {
+  const steps: TraceStep[] = [];
+  const add = (stage: TraceStage, rule: string, detail_de: string, values?: TraceStep["values"]) => {
+    steps.push({ step: steps.length + 1, stage, rule, detail_de, ...(values ? { values } : {}) });
+  };
+  const rfById = new Map(getAllRiskFactors(catalog).map((rf) => [rf.rf_id, rf]));
+
+  // Entry pathway and age group
+  add("entry", `entry.${result.entry.pathway}`, `Zugangsweg: ${result.entry.label_de}`, {
+    fracture_entry: result.entry.fracture_entry,
+    lookup_age: result.entry.lookup_age,
+  });
+  add("entry", "entry.age_group", `Altersgruppe ${result.ageBin}`, { age_bin: result.ageBin });
+
+  // Event-derived RFs
+  for (const rfId of result.eventRfIds) {
+    add("event_rfs", "event_rf.auto_selected", `Aus Ereignisdaten ausgewählt: ${rfById.get(rfId)?.label_de ?? rfId}`, {
+      rf_id: rfId,
+    });
+  }
+
+  // RF pool building and discarded RFs
+  for (const { rf, poolSource } of result.rfPool) {
+    add("rf_selection", "rf_pool.added", `Pool (${poolSource}): ${rf.label_de} (RR ${formatFactor(rf.rr_3y)})`, {
+      rf_id: rf.rf_id,
+      rr_3y: rf.rr_3y,
+      pool_source: poolSource,
+    });
+  }
+  for (const { rf, reason, reason_de } of result.discardedRfs) {
+    add("rf_selection", `rf_discarded.${reason}`, `Verworfen: ${rf.label_de} – ${reason_de}`, {
+      rf_id: rf.rf_id,
+      rr_3y: rf.rr_3y,
+    });
+  }
+  for (const { rf, poolSource } of result.top2Rfs) {
+    add("rf_selection", "rf_chosen", `Gewählt: ${rf.label_de} (RR ${formatFactor(rf.rr_3y)})`, {
+      rf_id: rf.rf_id,
+      rr_3y: rf.rr_3y,
+      pool_source: poolSource,
+    });
+  }
+
+  // Combined multiplier
+  const factors = result.top2Rfs.map(({ rf }) => formatFactor(rf.rr_3y));
+  add(
+    "multiplier",
+    `multiplier.${result.top2Rfs.length}_rf`,
+    factors.length > 0
+      ? `Kombinierter Multiplikator: ${factors.join(" × ")} = ${formatFactor(result.multiplier)}`
+      : `Kombinierter Multiplikator: ${formatFactor(result.multiplier)} (keine RF)`,
+    { multiplier: result.multiplier }
+  );
+
+  // Table cells consulted and threshold comparisons
+  const thresholds: Array<{ percent: 3 | 5 | 10; threshold: ThresholdResult }> = [
+    { percent: 3, threshold: result.thresholdDetails.threshold3 },
+    { percent: 5, threshold: result.thresholdDetails.threshold5 },
+    { percent: 10, threshold: result.thresholdDetails.threshold10 },
+  ];
+  for (const { percent, threshold } of thresholds) {
+    add("lookup", `lookup.${threshold.lookup.status}`, `${percent}%: ${describeLookup(sex, percent, threshold)}`, {
+      threshold_percent: percent,
+      age_bin: threshold.ageBin,
+      tscore_bin: threshold.tscoreMapping?.bin ?? null,
+      tscore_mapping: threshold.tscoreMapping?.reason ?? null,
+      required_factor: threshold.requiredFactor,
+    });
+  }
+  for (const { percent, threshold } of thresholds) {
+    const outcome = threshold.reached ? "erreicht" : "nicht erreicht";
+    add(
+      "threshold",
+      threshold.reached ? "threshold.reached" : "threshold.not_reached",
+      threshold.requiredFactor !== null
+        ? `${percent}%: ${formatFactor(result.multiplier)} ${threshold.reached ? "≥" : "<"} ${formatFactor(threshold.requiredFactor)} → ${outcome} (${threshold.reason})`
+        : `${percent}%: ${threshold.reason} → ${outcome}`,
+      { threshold_percent: percent, reached: threshold.reached }
+    );
+  }
+
+  // Band
+  add("band", "band.highest_reached", `Höchste erreichte Band: ${result.band}`, { risk_band: result.band });
+
+  // Triggers
+  for (const rf of result.triggers.imminentRfs) {
+    add("triggers", "trigger.imminent_rf", `Imminentes Risiko (RF): ${rf.label_de}`, { rf_id: rf.rf_id });
+  }
+  for (const reason of result.triggers.imminentFromEvents.reasons_de) {
+    add("triggers", "trigger.imminent_event", `Imminentes Risiko (Ereignis): ${reason}`);
+  }
+  for (const rf of result.triggers.strongIrreversibleARfs) {
+    add("triggers", "trigger.strong_irreversible", `Starker/irreversibler RF: ${rf.label_de}`, { rf_id: rf.rf_id });
+  }
+  add(
+    "triggers",
+    result.triggers.triggerPresent ? "trigger.present" : "trigger.absent",
+    `Trigger vorhanden: ${result.triggers.triggerPresent ? "Ja" : "Nein"}`,
+    { imminent: result.triggers.imminent, strong_irreversible_A: result.triggers.strongIrreversibleA }
+  );
+
+  // Therapy rule
+  add(
+    "therapy",
+    `therapy.${result.therapyPlan.strategy}`,
+    `Band ${result.band}${result.band === "3–<5%" ? `, Trigger ${result.triggers.triggerPresent ? "ja" : "nein"}` : ""} → ${result.therapyPlan.label_de}`,
+    { strategy: result.therapyPlan.strategy }
+  );
+  for (const consideration of result.therapyPlan.secondary_considerations) {
+    add("therapy", "therapy.secondary_consideration", `Zusätzlich erwägen (${consideration.therapy_class}): ${consideration.why_de}`);
+  }
+
+  // Contraindication exclusions
+  for (const substance of result.excludedSubstances) {
+    add(
+      "contraindications",
+      "contraindication.excluded",
+      `Ausgeschlossen: ${getSubstanceLabel(substance.substance_id)} – ${substance.ui.excludedReason ?? ""}`,
+      { substance_id: substance.substance_id }
+    );
+  }
+
+  return { explain: buildExplainPayload(result), steps };
+}
+
+/**
+ * Serialize a decision trace as pretty-printed JSON (for download/export)
+ */
+export function serializeDecisionTrace(trace: DecisionTrace): string {
+  return JSON.stringify(trace, null, 2);
+}
@@ -0,0 +1,91 @@
+import type { EntryAssessment, EntryPathway, EntryPathwayInput } from './types';
+import { getAgeAtEvent } from './events';
+
+/**
+ * Minimum age covered by the DVO threshold tables
+ */
+export const MIN_TABLE_AGE = 50;
+
+const PATHWAY_LABELS: Record<EntryPathway, string> = {
+  case_finding: "Case Finding (ohne BMD)",
+  dxa: "DXA (mit BMD)",
+  fracture_entry: "Frakturzugang",
+};
+
+/**
+ * Determine the FRACTURE_ENTRY flag
+ * FRACTURE_ENTRY =
+ *     EXISTS(event.fracture where age_at_event >= 50)
+ *     OR (postmenopausal_female AND age < 50 AND EXISTS(event.fracture))
+ * Only dated fractures (not in the future) are considered.
+ */
+function isFractureEntry(input: EntryPathwayInput): boolean {
+  const agesAtEvent = input.events.fracture
+    .map((f) => getAgeAtEvent(input.age, f.date, input.referenceDate))
+    .filter((age): age is number => age !== null);
+
+  if (agesAtEvent.some((age) => age >= MIN_TABLE_AGE)) {
+    return true;
+  }
+
+  const postmenopausalFemale = input.sex === "female" && input.postmenopausal;
+  return postmenopausalFemale && input.age < MIN_TABLE_AGE && agesAtEvent.length > 0;
+}
+
+/**
+ * Assess the entry pathway (Case Finding, DXA, Fracture entry) and scope
+ *
+ * Pathway precedence: fracture entry > DXA (T-score given) > case finding.
+ * Scope:
+ * - age >= 50: in scope
+ * - age < 50: only via fracture entry (postmenopausal woman with fracture);
+ *   the lookup then uses the youngest table row (50)
+ * - T-Score > 0.0: out of scope (no osteoporosis)
+ *
+ * Reference: DVO_Osteoporosis_Risk_Engine_Pseudocode_v1.txt (DERIVED FLAGS, FRACTURE_ENTRY)
+ *
+ * @param input - Sex, age, menopausal status, T-score and fracture events
+ * @returns EntryAssessment with pathway, scope flag and German notices
+ */
+export function assessEntryPathway(input: EntryPathwayInput): EntryAssessment {
+  const fracture_entry = isFractureEntry(input);
+  const pathway: EntryPathway = fracture_entry
+    ? "fracture_entry"
+    : input.tscoreTotalHip !== null
+    ? "dxa"
+    : "case_finding";
+
+  const notices_de: string[] = [];
+  let in_scope = true;
+  let lookup_age = input.age;
+
+  if (input.age < MIN_TABLE_AGE) {
+    if (fracture_entry) {
+      lookup_age = MIN_TABLE_AGE;
+      notices_de.push(
+        "Frakturzugang: postmenopausale Frau unter 50 Jahren mit Fraktur – Berechnung mit der Tabellenzeile 50 Jahre."
+      );
+    } else {
+      in_scope = false;
+      notices_de.push(
+        input.sex === "female"
+          ? "Hinweis: Alter unter 50 Jahren liegt außerhalb des Gültigkeitsbereichs (Ausnahme: postmenopausale Frau mit Fraktur)."
+          : "Hinweis: Alter unter 50 Jahren liegt außerhalb des Gültigkeitsbereichs."
+      );
+    }
+  }
+
+  if (input.tscoreTotalHip !== null && input.tscoreTotalHip > 0.0) {
+    in_scope = false;
+    notices_de.push("T-Score > 0,0: keine Osteoporose (außerhalb App-Scope)");
+  }
+
+  return {
+    pathway,
+    label_de: PATHWAY_LABELS[pathway],
+    fracture_entry,
+    in_scope,
+    lookup_age,
+    notices_de,
+  };
+}
@@ -0,0 +1,267 @@
+import type { EventInput, FractureEvent, FractureType, ImminentRiskResult, MegIndex, OralGcCourse } from './types';
+
+export const FRACTURE_TYPE_LABELS: Record<FractureType, string> = {
+  hip: "Hüfte",
+  vertebral: "Wirbelkörper",
+  other: "Sonstige",
+};
+
+/**
+ * Create an empty event input (no fractures, no falls, no GC course)
+ */
+export function createEmptyEventInput(): EventInput {
+  return {
+    fracture: [],
+    falls_last_12m: null,
+    oral_gc: null,
+  };
+}
+
+/**
+ * Get today's date as ISO string "YYYY-MM-DD"
+ */
+export function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Parse an ISO date "YYYY-MM-DD" as UTC date, null if invalid
+ */
+function parseIsoDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Check for a real calendar date "YYYY-MM-DD" (rejects e.g. 2026-02-31)
+ */
+export function isValidIsoDate(value: string): boolean {
+  return parseIsoDate(value)?.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Check if an event date lies within the last 12 months before the reference date
+ * Calendar-based: 2025-03-15 is within 12 months of 2026-03-15 (inclusive).
+ * Future dates and invalid dates are never "within".
+ */
+export function isWithinLast12Months(eventDate: string, referenceDate: string): boolean {
+  const event = parseIsoDate(eventDate);
+  const reference = parseIsoDate(referenceDate);
+  if (!event || !reference || event > reference) {
+    return false;
+  }
+  const cutoff = new Date(reference);
+  cutoff.setUTCFullYear(cutoff.getUTCFullYear() - 1);
+  return event >= cutoff;
+}
+
+/**
+ * Estimate the patient's age at an event from the current age
+ * Whole years between event and reference date are subtracted.
+ * Returns null for invalid or future event dates.
+ */
+export function getAgeAtEvent(ageYears: number, eventDate: string, referenceDate: string): number | null {
+  const event = parseIsoDate(eventDate);
+  const reference = parseIsoDate(referenceDate);
+  if (!event || !reference || event > reference) {
+    return null;
+  }
+  let years = reference.getUTCFullYear() - event.getUTCFullYear();
+  const anniversary = new Date(event);
+  anniversary.setUTCFullYear(reference.getUTCFullYear());
+  if (anniversary > reference) {
+    years--;
+  }
+  return ageYears - years;
+}
+
+/**
+ * Completed years of age at the reference date from an ISO birth date
+ * Returns null for invalid or future birth dates.
+ */
+export function getAgeFromBirthDate(birthDate: string, referenceDate: string): number | null {
+  const birth = parseIsoDate(birthDate);
+  const reference = parseIsoDate(referenceDate);
+  if (!birth || !reference || birth > reference) {
+    return null;
+  }
+  let years = reference.getUTCFullYear() - birth.getUTCFullYear();
+  const birthday = new Date(birth);
+  birthday.setUTCFullYear(reference.getUTCFullYear());
+  if (birthday > reference) {
+    years--;
+  }
+  return years;
+}
+
+/**
+ * Whole calendar months between an ISO date and the reference date
+ * Returns null for invalid or future dates.
+ */
+export function getMonthsSince(date: string, referenceDate: string): number | null {
+  const event = parseIsoDate(date);
+  const reference = parseIsoDate(referenceDate);
+  if (!event || !reference || event > reference) {
+    return null;
+  }
+  const months =
+    (reference.getUTCFullYear() - event.getUTCFullYear()) * 12 + reference.getUTCMonth() - event.getUTCMonth();
+  return reference.getUTCDate() < event.getUTCDate() ? months - 1 : months;
+}
+
+/**
+ * Check if a fracture event is dated and in the past relative to the reference date
+ */
+function isPastFracture(fracture: FractureEvent, referenceDate: string): boolean {
+  const event = parseIsoDate(fracture.date);
+  const reference = parseIsoDate(referenceDate);
+  return event !== null && reference !== null && event <= reference;
+}
+
+/**
+ * Oral GC course > 5 mg/day for > 3 months, started or increased within the last 12 months
+ * Shared by the IFR rule and the RF auto-selection so both always agree.
+ */
+function isRecentHighDoseGcCourse(gc: OralGcCourse): boolean {
+  return gc.started_or_dose_increased_within_last_12m && gc.pred_eq_mg_per_day > 5 && gc.duration_months > 3;
+}
+
+/**
+ * Derive imminent fracture risk (IFR) from structured event data
+ * STRICT, FIXED rules from the risk engine pseudocode:
+ * - hip or vertebral fracture within the last 12 months
+ * - >= 2 falls within the last 12 months
+ * - oral GC > 5 mg/day for > 3 months, started or increased within the last 12 months
+ *
+ * Reference: DVO_Osteoporosis_Risk_Engine_Pseudocode_v1.txt (DERIVED FLAGS, IFR)
+ *
+ * @param events - Structured event input
+ * @param referenceDate - ISO date the assessment refers to
+ * @returns IFR flag with the German reasons that set it
+ */
+export function deriveImminentFractureRisk(
+  events: EventInput,
+  referenceDate: string
+): ImminentRiskResult {
+  const reasons_de: string[] = [];
+
+  if (events.fracture.some((f) => f.type === "hip" && isWithinLast12Months(f.date, referenceDate))) {
+    reasons_de.push("Hüftfraktur in den letzten 12 Monaten");
+  }
+
+  if (events.fracture.some((f) => f.type === "vertebral" && isWithinLast12Months(f.date, referenceDate))) {
+    reasons_de.push("Wirbelkörperfraktur in den letzten 12 Monaten");
+  }
+
+  if (events.falls_last_12m !== null && events.falls_last_12m >= 2) {
+    reasons_de.push(`${events.falls_last_12m} Stürze in den letzten 12 Monaten`);
+  }
+
+  const gc = events.oral_gc;
+  if (gc !== null && isRecentHighDoseGcCourse(gc)) {
+    reasons_de.push("Orale Glukokortikoide > 5 mg/Tag > 3 Monate, im letzten Jahr begonnen/erhöht");
+  }
+
+  return { ifr: reasons_de.length > 0, reasons_de };
+}
+
+/**
+ * Map structured events to the matching RF catalog IDs
+ * - Hip fracture: within 12 months → rf_hip_fracture_last_12m, older → rf_hip_fracture_gt_12m
+ * - Vertebral fracture: within 12 months → rf_vertebral_fracture_last_12m,
+ *   older fractures by count → rf_vertebral_fracture_gt_12m_1 / _2 / _3plus
+ * - Falls: 1 → rf_fall_1_last_12m, >= 2 → rf_falls_gt_1_last_12m
+ * - Oral GC: > 5 mg for > 3 months started/increased within 12 months takes
+ *   precedence (same rule as IFR), otherwise dose bands for courses > 3 months
+ * Fractures of type "other" do not map to a specific RF.
+ *
+ * @param events - Structured event input
+ * @param referenceDate - ISO date the assessment refers to
+ * @returns RF IDs (deduplicated, stable order)
+ */
+export function deriveEventRiskFactorIds(events: EventInput, referenceDate: string): string[] {
+  const rfIds: string[] = [];
+  const pastFractures = events.fracture.filter((f) => isPastFracture(f, referenceDate));
+
+  const hipFractures = pastFractures.filter((f) => f.type === "hip");
+  if (hipFractures.some((f) => isWithinLast12Months(f.date, referenceDate))) {
+    rfIds.push("rf_hip_fracture_last_12m");
+  } else if (hipFractures.length > 0) {
+    rfIds.push("rf_hip_fracture_gt_12m");
+  }
+
+  const vertebralFractures = pastFractures.filter((f) => f.type === "vertebral");
+  if (vertebralFractures.some((f) => isWithinLast12Months(f.date, referenceDate))) {
+    rfIds.push("rf_vertebral_fracture_last_12m");
+  }
+  const olderVertebralCount = vertebralFractures.filter(
+    (f) => !isWithinLast12Months(f.date, referenceDate)
+  ).length;
+  if (olderVertebralCount >= 3) {
+    rfIds.push("rf_vertebral_fracture_gt_12m_3plus");
+  } else if (olderVertebralCount === 2) {
+    rfIds.push("rf_vertebral_fracture_gt_12m_2");
+  } else if (olderVertebralCount === 1) {
+    rfIds.push("rf_vertebral_fracture_gt_12m_1");
+  }
+
+  if (events.falls_last_12m !== null) {
+    if (events.falls_last_12m >= 2) {
+      rfIds.push("rf_falls_gt_1_last_12m");
+    } else if (events.falls_last_12m === 1) {
+      rfIds.push("rf_fall_1_last_12m");
+    }
+  }
+
+  const gc = events.oral_gc;
+  if (gc !== null) {
+    if (isRecentHighDoseGcCourse(gc)) {
+      rfIds.push("rf_gc_pred_gt_5mg_started_or_increased_last_12m");
+    } else if (gc.duration_months > 3 && gc.pred_eq_mg_per_day > 0) {
+      if (gc.pred_eq_mg_per_day > 7.5) {
+        rfIds.push("rf_gc_pred_gt_7_5mg_gt_3m");
+      } else if (gc.pred_eq_mg_per_day >= 2.5) {
+        rfIds.push("rf_gc_pred_2_5_to_7_5mg_gt_3m");
+      } else {
+        rfIds.push("rf_gc_pred_lt_2_5mg_gt_3m");
+      }
+    }
+  }
+
+  return rfIds;
+}
+
+/**
+ * Merge event-derived RFs into the manual RF selection
+ * Event-derived RFs take precedence: manually selected RFs in the same
+ * mutual exclusion group are removed (single_choice_optional).
+ *
+ * @param selectedRfIds - Manually selected RF IDs
+ * @param eventRfIds - RF IDs derived from events
+ * @param megIndex - MEG index from catalog
+ * @returns Effective RF selection
+ */
+export function mergeEventRiskFactors(
+  selectedRfIds: Set<string>,
+  eventRfIds: string[],
+  megIndex: MegIndex
+): Set<string> {
+  const merged = new Set(selectedRfIds);
+
+  for (const rfId of eventRfIds) {
+    const megId = megIndex.rfToMeg.get(rfId) ?? null;
+    const megEntry = megId ? megIndex.megToRfs.get(megId) : undefined;
+    if (megEntry && megEntry.mode === 'single_choice_optional') {
+      for (const otherRfId of megEntry.rfIds) {
+        if (otherRfId !== rfId) {
+          merged.delete(otherRfId);
+        }
+      }
+    }
+    merged.add(rfId);
+  }
+
+  return merged;
+}
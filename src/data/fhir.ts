@@ -0,0 +1,549 @@
+import type {
+  AssessmentResult,
+  FhirCodeMap,
+  FhirCodeMapCoding,
+  FhirImportResult,
+  PatientInput,
+  RfCatalog,
+  RiskBand,
+  RiskFactor,
+  Sex,
+} from './types';
+import { getAgeFromBirthDate, getMonthsSince, todayIsoDate } from './events';
+import { loadFhirCodeMap, matchesCoding } from './fhirCodeMap';
+import { getBundleLabel } from './bundleRegistry';
+import { buildMegIndex, getAllRiskFactors, loadRfCatalog } from './rfCatalog';
+import { getSubstanceLabel } from './substanceRegistry';
+
+/**
+ * FHIR R4 exchange with hospital systems
+ *
+ * Export: collection Bundle with the RiskAssessment (prediction = risk band,
+ * basis = T-score Observation and one Condition per effective RF), the
+ * therapy options as MedicationRequest proposals and a CarePlan that lists
+ * them as activities. The Patient carries the sex only (no identifiers).
+ *
+ * Import: Bundle with Patient (sex, birth date), a total-hip T-score
+ * Observation and Conditions; codes are mapped to RFs via the code table.
+ */
+
+interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: "Bundle";
+  type: string;
+  timestamp?: string;
+  entry?: Array<{ fullUrl?: string; resource?: FhirResource }>;
+}
+
+interface FhirPatient extends FhirResource {
+  gender?: string;
+  birthDate?: string;
+}
+
+interface FhirObservation extends FhirResource {
+  status?: string;
+  code?: FhirCodeableConcept;
+  valueQuantity?: FhirQuantity;
+  effectiveDateTime?: string;
+  issued?: string;
+}
+
+interface FhirCondition extends FhirResource {
+  code?: FhirCodeableConcept;
+  clinicalStatus?: FhirCodeableConcept;
+  verificationStatus?: FhirCodeableConcept;
+  onsetDateTime?: string;
+  onsetPeriod?: { start?: string };
+}
+
+const UCUM = "http://unitsofmeasure.org";
+const CONDITION_CLINICAL = "http://terminology.hl7.org/CodeSystem/condition-clinical";
+const BAND_SYSTEM = "urn:osteopo:risk-band";
+const TSCORE_TEXT = "T-Score Gesamthüfte";
+const OBSERVATION_STATUSES = ["final", "amended", "corrected"];
+const EXCLUDED_VERIFICATION = ["refuted", "entered-in-error"];
+const INACTIVE_CLINICAL = ["inactive", "resolved", "remission"];
+
+// Probability range (percent) of each risk band
+const BAND_RANGES: Record<RiskBand, { low?: number; high?: number }> = {
+  "<3%": { high: 3 },
+  "3–<5%": { low: 3, high: 5 },
+  "5–<10%": { low: 5, high: 10 },
+  ">=10%": { low: 10 },
+};
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function percent(value: number): FhirQuantity {
+  return { value, unit: "%", system: UCUM, code: "%" };
+}
+
+/**
+ * Code table codings as FHIR codings (prefix entries are valid category codes)
+ */
+function toFhirCodings(entries: FhirCodeMapCoding[]): FhirCoding[] {
+  return entries.map(({ system, code, display }) => (display ? { system, code, display } : { system, code }));
+}
+
+/**
+ * Codings for an RF: local RF code plus all mapped diagnosis codes (without duplicates)
+ */
+function rfCodings(rf: RiskFactor, codeMap: FhirCodeMap): FhirCoding[] {
+  const seen = new Set<string>();
+  const mapped = codeMap.rf_codes.filter((m) => m.rf_id === rf.rf_id).flatMap((m) => m.codings);
+  return [{ system: codeMap.rf_system, code: rf.rf_id, display: rf.label_de }, ...toFhirCodings(mapped)].filter(
+    (coding) => {
+      const key = `${coding.system}|${coding.code}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }
+  );
+}
+
+/**
+ * Build the FHIR R4 export Bundle for an assessment
+ *
+ * @param input - Patient input the result was computed from
+ * @param result - Assessment result
+ * @param now - Timestamp of the export (default: now)
+ * @returns Bundle of type "collection" with urn:uuid references
+ */
+export function buildFhirBundle(
+  input: PatientInput,
+  result: AssessmentResult,
+  now: Date = new Date(),
+  codeMap: FhirCodeMap = loadFhirCodeMap(),
+  catalog: RfCatalog = loadRfCatalog()
+): FhirBundle {
+  const timestamp = now.toISOString();
+  const entries: Array<{ fullUrl: string; resource: FhirResource }> = [];
+  const add = (resource: FhirResource): string => {
+    const id = crypto.randomUUID();
+    const fullUrl = `urn:uuid:${id}`;
+    entries.push({ fullUrl, resource: { ...resource, id } });
+    return fullUrl;
+  };
+
+  const patient = add({ resourceType: "Patient", gender: input.sex });
+  const subject = { reference: patient };
+  const basis: Array<{ reference: string }> = [];
+
+  // Only the age is known (no birth date): exported as Observation
+  basis.push({
+    reference: add({
+      resourceType: "Observation",
+      status: "final",
+      code: { coding: toFhirCodings(codeMap.age), text: "Alter" },
+      subject,
+      valueQuantity: { value: input.age, unit: "Jahre", system: UCUM, code: "a" },
+    }),
+  });
+
+  if (input.tscoreTotalHip !== null) {
+    basis.push({
+      reference: add({
+        resourceType: "Observation",
+        status: "final",
+        code: { coding: toFhirCodings(codeMap.tscore_total_hip), text: TSCORE_TEXT },
+        subject,
+        valueQuantity: { value: input.tscoreTotalHip, unit: "SD" },
+      }),
+    });
+  }
+
+  const rfsById = new Map(getAllRiskFactors(catalog).map((rf) => [rf.rf_id, rf]));
+  result.effectiveRfIds.forEach((rfId) => {
+    const rf = rfsById.get(rfId);
+    if (!rf) return;
+    basis.push({
+      reference: add({
+        resourceType: "Condition",
+        clinicalStatus: { coding: [{ system: CONDITION_CLINICAL, code: "active" }] },
+        code: { coding: rfCodings(rf, codeMap), text: rf.label_de },
+        subject,
+      }),
+    });
+  });
+
+  const range = BAND_RANGES[result.band];
+  const riskAssessment = add({
+    resourceType: "RiskAssessment",
+    status: "final",
+    subject,
+    occurrenceDateTime: timestamp,
+    code: { text: "Osteoporotisches Frakturrisiko nach DVO-Leitlinie 2023" },
+    method: { text: `DVO 2023, ${getBundleLabel(result.bundleVersion)}, ${result.usedBmd ? "mit BMD" : "ohne BMD"}` },
+    basis,
+    prediction: [
+      {
+        outcome: { text: "Hüft- oder Wirbelkörperfraktur" },
+        probabilityRange: {
+          ...(range.low !== undefined ? { low: percent(range.low) } : {}),
+          ...(range.high !== undefined ? { high: percent(range.high) } : {}),
+        },
+        qualitativeRisk: { coding: [{ system: BAND_SYSTEM, code: result.band }], text: result.band },
+        whenRange: { high: { value: 3, unit: "Jahre", system: UCUM, code: "a" } },
+      },
+    ],
+    mitigation: `${result.therapyPlan.label_de}. ${result.recommendation}`,
+    note: [
+      { text: `Multiplikator der Risikofaktoren ${Math.round(result.multiplier * 100) / 100}` },
+      ...(result.tscoreMappingNote ? [{ text: result.tscoreMappingNote }] : []),
+    ],
+  });
+
+  const medicationRequests = result.rankedSubstances.map((substance) => {
+    const mapping = codeMap.substance_codes.find((m) => m.substance_id === substance.substance_id);
+    return add({
+      resourceType: "MedicationRequest",
+      status: "draft",
+      intent: "proposal",
+      medicationCodeableConcept: {
+        coding: toFhirCodings(mapping?.codings ?? []),
+        text: getSubstanceLabel(substance.substance_id),
+      },
+      subject,
+      authoredOn: timestamp,
+      reasonReference: [{ reference: riskAssessment }],
+      note: [{ text: `${substance.ui.evidenceChip}, ${substance.ui.efficacyHint}` }],
+    });
+  });
+
+  add({
+    resourceType: "CarePlan",
+    status: "draft",
+    intent: "proposal",
+    title: result.therapyPlan.label_de,
+    description: result.recommendation,
+    subject,
+    created: timestamp,
+    supportingInfo: [{ reference: riskAssessment }],
+    activity: [
+      ...medicationRequests.map((reference) => ({ reference: { reference } })),
+      ...(result.therapyPlan.actions ?? []).map((action) => ({
+        detail: { status: "not-started", description: action },
+      })),
+    ],
+    note: result.therapyPlan.special_notes.map((text) => ({ text })),
+  });
+
+  return { resourceType: "Bundle", type: "collection", timestamp, entry: entries };
+}
+
+export function serializeFhirBundle(bundle: FhirBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * FHIR date/dateTime to ISO date; partial dates ("1952", "1952-03") use the first day
+ */
+function toIsoDate(value: string | undefined): { date: string; partial: boolean } | null {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?/.exec(value ?? "");
+  if (!match) return null;
+  return { date: `${match[1]}-${match[2] ?? "01"}-${match[3] ?? "01"}`, partial: match[3] === undefined };
+}
+
+function hasCode(concept: FhirCodeableConcept | undefined, codes: string[]): boolean {
+  return (concept?.coding ?? []).some((coding) => coding.code !== undefined && codes.includes(coding.code));
+}
+
+function describeCondition(condition: FhirCondition): string {
+  const coding = condition.code?.coding?.[0];
+  const text = condition.code?.text ?? coding?.display;
+  return text ?? coding?.code ?? "ohne Code";
+}
+
+/**
+ * Sex and age from the Patient; without a usable birth date the age
+ * Observation (fallback) is used
+ */
+function readPatient(
+  patient: FhirPatient | undefined,
+  ageObservation: number | null,
+  referenceDate: string,
+  warnings_de: string[]
+): { sex: Sex | null; age: number | null } {
+  const sex: Sex | null = patient?.gender === "female" || patient?.gender === "male" ? patient.gender : null;
+  if (!patient) warnings_de.push("Keine Patient-Ressource – Geschlecht bitte manuell auswählen.");
+  else if (sex === null) {
+    warnings_de.push(
+      patient.gender
+        ? `Geschlecht „${patient.gender}" wird nicht unterstützt – bitte manuell auswählen.`
+        : "Kein Geschlecht angegeben – bitte manuell auswählen."
+    );
+  }
+
+  const birth = toIsoDate(patient?.birthDate);
+  const age = birth ? getAgeFromBirthDate(birth.date, referenceDate) : null;
+  if (age !== null) {
+    if (birth!.partial) warnings_de.push(`Geburtsdatum unvollständig (${patient!.birthDate}) – Alter bitte prüfen.`);
+    return { sex, age };
+  }
+  if (ageObservation !== null) return { sex, age: Math.floor(ageObservation) };
+  warnings_de.push("Kein gültiges Geburtsdatum – Alter bitte manuell eingeben.");
+  return { sex, age: null };
+}
+
+/**
+ * Value of the latest final Observation with one of the given codes
+ */
+function readObservationValue(
+  observations: FhirObservation[],
+  codes: FhirCodeMapCoding[],
+  label: string,
+  warnings_de: string[]
+): number | null {
+  const candidates = observations
+    .filter((o) => (o.code?.coding ?? []).some((coding) => codes.some((entry) => matchesCoding(entry, coding))))
+    .filter((o) => OBSERVATION_STATUSES.includes(o.status ?? "") && typeof o.valueQuantity?.value === "number")
+    .sort((a, b) => (b.effectiveDateTime ?? b.issued ?? "").localeCompare(a.effectiveDateTime ?? a.issued ?? ""));
+  if (candidates.length > 1) warnings_de.push(`${candidates.length} Befunde „${label}" – der neueste wurde übernommen.`);
+  return candidates[0]?.valueQuantity?.value ?? null;
+}
+
+/**
+ * Map Conditions to RFs via the code table (plus the local RF code system)
+ */
+function readConditions(
+  conditions: FhirCondition[],
+  referenceDate: string,
+  codeMap: FhirCodeMap,
+  rfsById: Map<string, RiskFactor>,
+  warnings_de: string[]
+): Array<{ rf_id: string; source: string }> {
+  const mapped: Array<{ rf_id: string; source: string }> = [];
+
+  conditions.forEach((condition) => {
+    if (hasCode(condition.verificationStatus, EXCLUDED_VERIFICATION)) return;
+    const label = describeCondition(condition);
+    const codings = condition.code?.coding ?? [];
+    const inactive = hasCode(condition.clinicalStatus, INACTIVE_CLINICAL);
+    const onset = toIsoDate(condition.onsetDateTime ?? condition.onsetPeriod?.start);
+    const monthsSinceOnset = onset ? getMonthsSince(onset.date, referenceDate) : null;
+
+    // Local RF codes (own export) take precedence over the diagnosis codes
+    const direct = codings.filter((c) => c.system === codeMap.rf_system && c.code && rfsById.has(c.code));
+    if (direct.length > 0) {
+      if (!inactive) direct.forEach((coding) => mapped.push({ rf_id: coding.code!, source: label }));
+      return;
+    }
+
+    let matched = false;
+    let onsetMissing = false;
+    codeMap.rf_codes.forEach((mapping) => {
+      const coding = codings.find((c) => mapping.codings.some((entry) => matchesCoding(entry, c)));
+      if (!coding || !rfsById.has(mapping.rf_id)) return;
+      matched = true;
+      if (inactive && !mapping.include_resolved) return;
+      if (mapping.onset_months) {
+        const { min, max } = mapping.onset_months;
+        if (monthsSinceOnset === null) {
+          onsetMissing = true;
+          return;
+        }
+        if ((min !== undefined && monthsSinceOnset < min) || (max !== undefined && monthsSinceOnset >= max)) return;
+      }
+      mapped.push({ rf_id: mapping.rf_id, source: label === coding.code ? label : `${label} (${coding.code})` });
+    });
+
+    if (!matched) warnings_de.push(`Diagnose „${label}" ist keinem Risikofaktor zugeordnet.`);
+    else if (onsetMissing) warnings_de.push(`Diagnose „${label}": Beginn fehlt – Risikofaktor bitte manuell auswählen.`);
+  });
+
+  return mapped;
+}
+
+/**
+ * Keep one RF per single-choice MEG (highest RR wins) and drop duplicates
+ */
+function resolveMegConflicts(
+  mapped: Array<{ rf_id: string; source: string }>,
+  catalog: RfCatalog,
+  rfsById: Map<string, RiskFactor>,
+  warnings_de: string[]
+): Array<{ rf_id: string; source: string }> {
+  const megIndex = buildMegIndex(catalog);
+  const byMeg = new Map<string, string>();
+  const kept: Array<{ rf_id: string; source: string }> = [];
+
+  [...mapped]
+    .sort((a, b) => (rfsById.get(b.rf_id)?.rr_3y ?? 0) - (rfsById.get(a.rf_id)?.rr_3y ?? 0))
+    .forEach((entry) => {
+      if (kept.some((k) => k.rf_id === entry.rf_id)) return;
+      const megId = megIndex.rfToMeg.get(entry.rf_id) ?? null;
+      const megMode = megId ? megIndex.megToRfs.get(megId)?.mode : undefined;
+      if (megId && megMode === "single_choice_optional") {
+        const existing = byMeg.get(megId);
+        if (existing) {
+          warnings_de.push(
+            `„${rfsById.get(entry.rf_id)?.label_de}" nicht übernommen – schließt sich mit „${rfsById.get(existing)?.label_de}" aus.`
+          );
+          return;
+        }
+        byMeg.set(megId, entry.rf_id);
+      }
+      kept.push(entry);
+    });
+
+  return kept;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Structure check of the fields the import reads
+ * JSON.parse only yields untyped data; like malformed GDT lines, a bundle with
+ * the wrong shape is rejected with errors instead of being half-read.
+ *
+ * @returns German error per offending field (JSON path), empty if the shape is usable
+ */
+function checkBundleShape(bundle: Record<string, unknown>): string[] {
+  const errors_de: string[] = [];
+  const fail = (path: string, message: string) => errors_de.push(`Ungültiges FHIR-Bundle: ${path} ${message}.`);
+
+  const text = (value: unknown, path: string) => {
+    if (value !== undefined && typeof value !== "string") fail(path, "ist kein Text");
+  };
+  const concept = (value: unknown, path: string) => {
+    if (value === undefined) return;
+    if (!isObject(value)) return fail(path, "ist kein Objekt");
+    text(value.text, `${path}.text`);
+    if (value.coding === undefined) return;
+    if (!Array.isArray(value.coding)) return fail(`${path}.coding`, "ist keine Liste");
+    value.coding.forEach((coding: unknown, index) => {
+      const codingPath = `${path}.coding[${index}]`;
+      if (!isObject(coding)) return fail(codingPath, "ist kein Objekt");
+      ["system", "code", "display"].forEach((key) => text(coding[key], `${codingPath}.${key}`));
+    });
+  };
+
+  if (bundle.entry === undefined) return errors_de;
+  if (!Array.isArray(bundle.entry)) {
+    fail("Bundle.entry", "ist keine Liste");
+    return errors_de;
+  }
+
+  bundle.entry.forEach((entry: unknown, index) => {
+    const path = `entry[${index}]`;
+    if (!isObject(entry)) return fail(path, "ist kein Objekt");
+    const resource = entry.resource;
+    if (resource === undefined) return;
+    if (!isObject(resource) || typeof resource.resourceType !== "string") {
+      return fail(`${path}.resource`, "ist keine FHIR-Ressource");
+    }
+
+    const field = (key: string) => `${path}.resource.${key}`;
+    switch (resource.resourceType) {
+      case "Patient":
+        text(resource.gender, field("gender"));
+        text(resource.birthDate, field("birthDate"));
+        break;
+      case "Observation":
+        concept(resource.code, field("code"));
+        ["status", "effectiveDateTime", "issued"].forEach((key) => text(resource[key], field(key)));
+        if (resource.valueQuantity !== undefined && !isObject(resource.valueQuantity)) {
+          fail(field("valueQuantity"), "ist kein Objekt");
+        }
+        break;
+      case "Condition":
+        ["code", "clinicalStatus", "verificationStatus"].forEach((key) => concept(resource[key], field(key)));
+        text(resource.onsetDateTime, field("onsetDateTime"));
+        if (resource.onsetPeriod !== undefined) {
+          if (isObject(resource.onsetPeriod)) text(resource.onsetPeriod.start, field("onsetPeriod.start"));
+          else fail(field("onsetPeriod"), "ist kein Objekt");
+        }
+        break;
+    }
+  });
+
+  return errors_de;
+}
+
+/**
+ * Read a FHIR R4 Bundle (JSON) for pre-filling the input
+ *
+ * @param content - Bundle JSON text
+ * @param referenceDate - ISO date for age and time since onset (default: today)
+ * @returns Input state (sex, age, T-score, RFs) with mapped RFs and German warnings
+ */
+export function parseFhirBundle(
+  content: string,
+  referenceDate: string = todayIsoDate(),
+  codeMap: FhirCodeMap = loadFhirCodeMap(),
+  catalog: RfCatalog = loadRfCatalog()
+): FhirImportResult {
+  const warnings_de: string[] = [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { state: null, mappedRfs: [], warnings_de, errors_de: ["Die Datei ist kein gültiges JSON."] };
+  }
+  if (!isObject(parsed) || parsed.resourceType !== "Bundle") {
+    return { state: null, mappedRfs: [], warnings_de, errors_de: ["Die Datei enthält kein FHIR-Bundle."] };
+  }
+  const shapeErrors = checkBundleShape(parsed);
+  if (shapeErrors.length > 0) {
+    return { state: null, mappedRfs: [], warnings_de, errors_de: shapeErrors };
+  }
+  const bundle = parsed as unknown as FhirBundle;
+
+  const resources = (bundle.entry ?? []).flatMap((entry) => (entry.resource ? [entry.resource] : []));
+  const ofType = <T extends FhirResource>(type: string) => resources.filter((r) => r.resourceType === type) as T[];
+  const patients = ofType<FhirPatient>("Patient");
+  if (patients.length > 1) warnings_de.push(`${patients.length} Patient-Ressourcen – die erste wurde übernommen.`);
+
+  const rfsById = new Map(getAllRiskFactors(catalog).map((rf) => [rf.rf_id, rf]));
+  const observations = ofType<FhirObservation>("Observation");
+  const { sex, age } = readPatient(
+    patients[0],
+    readObservationValue(observations, codeMap.age, "Alter", warnings_de),
+    referenceDate,
+    warnings_de
+  );
+  const tscoreTotalHip = readObservationValue(observations, codeMap.tscore_total_hip, TSCORE_TEXT, warnings_de);
+  const mappedRfs = resolveMegConflicts(
+    readConditions(ofType<FhirCondition>("Condition"), referenceDate, codeMap, rfsById, warnings_de),
+    catalog,
+    rfsById,
+    warnings_de
+  );
+
+  return {
+    state: { sex, age, tscoreTotalHip, selectedRfIds: mappedRfs.map((m) => m.rf_id) },
+    mappedRfs,
+    warnings_de,
+    errors_de: [],
+  };
+}
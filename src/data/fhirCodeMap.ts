@@ -0,0 +1,19 @@
+import type { FhirCodeMap, FhirCodeMapCoding } from './types';
+import fhirCodeMapData from '../../context/DVO_FHIR_Code_Map_v1.0.0.json';
+
+const codeMap = fhirCodeMapData as FhirCodeMap;
+
+/**
+ * Load the FHIR code table
+ */
+export function loadFhirCodeMap(): FhirCodeMap {
+  return codeMap;
+}
+
+/**
+ * Check whether a FHIR coding matches a code table entry (same system, exact or prefix code)
+ */
+export function matchesCoding(entry: FhirCodeMapCoding, coding: { system?: string; code?: string }): boolean {
+  if (!coding.system || !coding.code || coding.system !== entry.system) return false;
+  return entry.match === "prefix" ? coding.code.startsWith(entry.code) : coding.code === entry.code;
+}
@@ -0,0 +1,291 @@
+import type { AssessmentResult, GdtField, GdtPatientRequest, ImportedGdtRequest, PatientInput, Sex } from './types';
+import { getAgeFromBirthDate, todayIsoDate } from './events';
+
+/**
+ * GDT (Gerätedatentransfer) 2.1 file exchange with practice management software
+ *
+ * A GDT file holds one record; every line is "LLLFFFFcontent\r\n" with LLL the
+ * line length in bytes (incl. length, field ID and CR LF) and FFFF the field ID.
+ * Field 9206 names the character set (1 = 7-bit DIN 66003, 2 = IBM CP437,
+ * 3 = ISO 8859-1). Results are always written as ISO 8859-1.
+ *
+ * Pure functions only; reading and writing the exchange files is done by the UI.
+ */
+
+export const GDT_VERSION = "02.10";
+export const GDT_OWN_ID = "OSTEOPO";                 // GDT ID of this tool (8 characters max.)
+const GDT_CHARSET_ISO_8859_1 = "3";
+const GDT_RESULT_TEST_ID = "DVO2023";
+const GDT_RECORD_TYPES = ["6302", "6310"];
+
+const LINE_PATTERN = /^(\d{3})(\d{4})(.*)$/;
+const MAX_CONTENT_LENGTH = 999 - 9;                 // 3-digit line length minus length, field ID, CR LF
+const TSCORE_TEST_PATTERN = /t[\s_-]?score/i;
+
+// Non-ASCII characters of CP437 and DIN 66003 that occur in German names
+const CP437_CHARS: Record<number, string> = {
+  0x81: "ü", 0x82: "é", 0x84: "ä", 0x8e: "Ä", 0x94: "ö", 0x99: "Ö", 0x9a: "Ü", 0xe1: "ß", 0xe6: "µ", 0xf8: "°",
+};
+const DIN_66003_CHARS: Record<number, string> = {
+  0x40: "§", 0x5b: "Ä", 0x5c: "Ö", 0x5d: "Ü", 0x7b: "ä", 0x7c: "ö", 0x7d: "ü", 0x7e: "ß",
+};
+
+// Typographic characters of the result texts outside ISO 8859-1
+const LATIN1_REPLACEMENTS: Record<string, string> = {
+  "–": "-", "—": "-", "‑": "-", "≥": ">=", "≤": "<=", "→": "->", "„": "\"", "“": "\"", "”": "\"", "‘": "'", "’": "'", "…": "...",
+};
+
+function detectCharset(bytes: Uint8Array): string {
+  const ascii = Array.from(bytes.subarray(0, 4096), (byte) => (byte < 0x80 ? String.fromCharCode(byte) : "?")).join("");
+  return /^\d{3}9206(\d)/m.exec(ascii)?.[1] ?? GDT_CHARSET_ISO_8859_1;
+}
+
+/**
+ * Decode a GDT file according to its character set field (default ISO 8859-1)
+ */
+export function decodeGdtBytes(bytes: Uint8Array): string {
+  const charset = detectCharset(bytes);
+  if (charset === GDT_CHARSET_ISO_8859_1) return new TextDecoder("iso-8859-1").decode(bytes);
+  const table = charset === "1" ? DIN_66003_CHARS : CP437_CHARS;
+  return Array.from(bytes, (byte) => table[byte] ?? (byte < 0x80 ? String.fromCharCode(byte) : "?")).join("");
+}
+
+/**
+ * Encode GDT text as ISO 8859-1 bytes (characters outside the set become "?")
+ */
+export function encodeGdtText(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    return code <= 0xff ? code : 0x3f;
+  });
+}
+
+function toLatin1(text: string): string {
+  return Array.from(text, (char) => LATIN1_REPLACEMENTS[char] ?? char).join("");
+}
+
+/**
+ * Split GDT text into fields
+ * Line length mismatches are reported as warnings, lines without field ID as errors.
+ */
+export function parseGdtFields(text: string): { fields: GdtField[]; errors_de: string[]; warnings_de: string[] } {
+  const fields: GdtField[] = [];
+  const errors_de: string[] = [];
+  const warnings_de: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "") return;
+    const match = LINE_PATTERN.exec(line);
+    if (!match) {
+      errors_de.push(`Zeile ${index + 1}: kein gültiges GDT-Feld („${line.slice(0, 20)}")`);
+      return;
+    }
+    if (Number(match[1]) !== line.length + 2) {
+      warnings_de.push(`Zeile ${index + 1}: Zeilenlänge ${match[1]} passt nicht zum Inhalt`);
+    }
+    fields.push({ field: match[2], content: match[3] });
+  });
+
+  return { fields, errors_de, warnings_de };
+}
+
+/**
+ * Parse a GDT date "TTMMJJJJ" to ISO "YYYY-MM-DD" (null if invalid)
+ */
+export function parseGdtDate(value: string): string | null {
+  const match = /^(\d{2})(\d{2})(\d{4})$/.exec(value.trim());
+  if (!match) return null;
+  const [, day, month, year] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCDate() !== Number(day) || date.getUTCMonth() !== Number(month) - 1) return null;
+  return `${year}-${month}-${day}`;
+}
+
+function formatGdtDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(date.getDate())}${pad(date.getMonth() + 1)}${date.getFullYear()}`;
+}
+
+function formatGdtTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+function parseGdtSex(value: string): Sex | null {
+  switch (value.trim().toUpperCase()) {
+    case "1":
+    case "M":
+      return "male";
+    case "2":
+    case "W":
+    case "F":
+      return "female";
+    default:
+      return null;
+  }
+}
+
+/**
+ * T-score from the test fields (8410 test ID / 8411 test name, then 8420 value)
+ */
+function findTscore(fields: GdtField[]): number | null {
+  let isTscoreTest = false;
+  for (const { field, content } of fields) {
+    if (field === "8410") isTscoreTest = TSCORE_TEST_PATTERN.test(content);
+    if (field === "8411" && TSCORE_TEST_PATTERN.test(content)) isTscoreTest = true;
+    if (field === "8420" && isTscoreTest) {
+      const value = Number(content.trim().replace(",", "."));
+      if (content.trim() !== "" && Number.isFinite(value)) return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a GDT examination request (record type 6302 or 6310)
+ *
+ * @param text - Decoded file content (see decodeGdtBytes)
+ * @param referenceDate - ISO date the age is computed for (default: today)
+ * @returns Patient data for pre-filling the input, or null with errors
+ */
+export function parseGdtRequest(
+  text: string,
+  referenceDate: string = todayIsoDate()
+): { request: GdtPatientRequest | null; errors_de: string[]; warnings_de: string[] } {
+  const { fields, errors_de, warnings_de } = parseGdtFields(text);
+  const first = (id: string) => fields.find((f) => f.field === id)?.content.trim() ?? "";
+
+  const recordType = first("8000");
+  if (!GDT_RECORD_TYPES.includes(recordType)) {
+    errors_de.push(
+      recordType === ""
+        ? "Keine GDT-Satzart (Feld 8000) gefunden."
+        : `Satzart ${recordType} wird nicht unterstützt (erwartet 6302 oder 6310).`
+    );
+    return { request: null, errors_de, warnings_de };
+  }
+  if (errors_de.length > 0) return { request: null, errors_de, warnings_de };
+
+  const birthDateRaw = first("3103");
+  const birthDate = birthDateRaw === "" ? null : parseGdtDate(birthDateRaw);
+  if (birthDateRaw === "") warnings_de.push("Kein Geburtsdatum (Feld 3103) – Alter bitte manuell eingeben.");
+  else if (birthDate === null) warnings_de.push(`Geburtsdatum „${birthDateRaw}" ist ungültig.`);
+
+  const sexRaw = first("3110");
+  const sex = parseGdtSex(sexRaw);
+  if (sex === null) {
+    warnings_de.push(
+      sexRaw === ""
+        ? "Kein Geschlecht (Feld 3110) – bitte manuell auswählen."
+        : `Geschlecht „${sexRaw}" wird nicht unterstützt – bitte manuell auswählen.`
+    );
+  }
+
+  if (first("3000") === "") warnings_de.push("Keine Patientennummer (Feld 3000) – die Praxissoftware kann das Ergebnis ggf. nicht zuordnen.");
+
+  return {
+    request: {
+      record_type: recordType,
+      sender_id: first("8316"),
+      receiver_id: first("8315"),
+      patient_id: first("3000"),
+      last_name: first("3101"),
+      first_name: first("3102"),
+      birth_date: birthDate,
+      sex,
+      age: birthDate ? getAgeFromBirthDate(birthDate, referenceDate) : null,
+      tscore: findTscore(fields),
+    },
+    errors_de,
+    warnings_de,
+  };
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100).replace(".", ",");
+}
+
+/**
+ * Short Befund text for the result record (one entry per 6220 line)
+ */
+export function buildGdtBefundLines(input: PatientInput, result: AssessmentResult): string[] {
+  const lines = [
+    "Osteoporose-Risikoeinschätzung nach DVO-Leitlinie 2023",
+    `3-Jahres-Frakturrisiko: ${result.band}`,
+    result.usedBmd && input.tscoreTotalHip !== null
+      ? `Berechnung mit BMD (T-Score Gesamthüfte ${formatNumber(input.tscoreTotalHip)})`
+      : "Berechnung ohne BMD",
+  ];
+  if (result.top2Rfs.length > 0) {
+    lines.push(`Risikofaktoren: ${result.top2Rfs.map(({ rf }) => rf.label_de).join(", ")} (Multiplikator ${formatNumber(result.multiplier)})`);
+  }
+  if (result.triggers.triggerPresent) lines.push("Therapie-Trigger vorhanden (imminentes oder starkes Risiko)");
+  lines.push(`Therapiestrategie: ${result.therapyPlan.label_de}`);
+  lines.push(`Empfehlung: ${result.recommendation}`);
+  return lines.map(toLatin1);
+}
+
+/**
+ * Build the GDT result record (6310) for a request
+ * Patient fields are echoed from the request so the practice software can match the result.
+ *
+ * @returns GDT text with CR LF line ends; encode with encodeGdtText before writing
+ */
+export function buildGdtResult(
+  request: GdtPatientRequest,
+  input: PatientInput,
+  result: AssessmentResult,
+  now: Date = new Date()
+): string {
+  const fields: GdtField[] = [
+    { field: "8315", content: request.sender_id },
+    { field: "8316", content: request.receiver_id || GDT_OWN_ID },
+    { field: "9206", content: GDT_CHARSET_ISO_8859_1 },
+    { field: "9218", content: GDT_VERSION },
+    { field: "3000", content: request.patient_id },
+    { field: "3101", content: request.last_name },
+    { field: "3102", content: request.first_name },
+    { field: "3103", content: request.birth_date ? request.birth_date.split("-").reverse().join("") : "" },
+    { field: "3110", content: request.sex === "male" ? "1" : request.sex === "female" ? "2" : "" },
+    { field: "6200", content: formatGdtDate(now) },
+    { field: "6201", content: formatGdtTime(now) },
+    { field: "8410", content: GDT_RESULT_TEST_ID },
+    { field: "8411", content: "DVO-Risikoband" },
+    { field: "8420", content: toLatin1(result.band) },
+    { field: "8410", content: `${GDT_RESULT_TEST_ID}S` },
+    { field: "8411", content: "Therapiestrategie" },
+    { field: "8420", content: result.therapyPlan.strategy },
+    ...buildGdtBefundLines(input, result).map((line) => ({ field: "6220", content: line })),
+  ].filter((f) => f.content !== "");
+
+  const formatLine = (field: string, content: string) => {
+    const text = content.slice(0, MAX_CONTENT_LENGTH);
+    return `${String(3 + 4 + text.length + 2).padStart(3, "0")}${field}${text}\r\n`;
+  };
+  const body = fields.map((f) => formatLine(f.field, f.content)).join("");
+  const head = formatLine("8000", "6310");
+  // 8100: record length in bytes incl. its own line (always 14 bytes: "014" + "8100" + 5 digits + CR LF)
+  const recordLength = head.length + 14 + body.length;
+  return `${head}${formatLine("8100", String(recordLength).padStart(5, "0"))}${body}`;
+}
+
+/**
+ * The imported request, as long as it still belongs to the current case
+ * Once the inputs are reset or replaced (auto-lock, saved case, FHIR import)
+ * a result would be filed under the wrong patient, so the request is dropped.
+ */
+export function getActiveGdtRequest(
+  imported: ImportedGdtRequest | null,
+  caseGeneration: number
+): GdtPatientRequest | null {
+  return imported !== null && imported.case_generation === caseGeneration ? imported.request : null;
+}
+
+/**
+ * File name for the result: receiver ID followed by sender ID (GDT convention)
+ */
+export function getGdtResultFilename(request: GdtPatientRequest): string {
+  const receiver = (request.sender_id || "PRAX").slice(0, 4).toUpperCase();
+  const sender = (request.receiver_id || GDT_OWN_ID).slice(0, 4).toUpperCase();
+  return `${receiver}${sender}.gdt`;
+}
@@ -1,31 +1,49 @@
-import type { DVOBundle, ThresholdTable } from './types';
-import bundleData from '../../context/DVO_Threshold_Tables_Bundle_v1.0.0.json';
-
-const bundle = bundleData as DVOBundle;
+import type { DVOBundle, LookupResult, ThresholdResult, ThresholdTable, TscoreMapping, TscoreMappingReason } from './types';
+import { getDefaultBundle } from './bundleRegistry';
 
 /**
- * Load the DVO bundle data
+ * Load the DVO bundle data (default version of the bundle registry)
  */
 export function loadBundle(): DVOBundle {
-  return bundle;
+  return getDefaultBundle();
 }
 
 /**
- * Calculate age bin from age in years
+ * Calculate age group from age in years
  * Formula: floor(ageYears / 5) * 5
- * Clamped to [50, 90]
  * Returns null if age < 50
+ * Not clamped: the row actually used is resolved per table (see ageBinForTable)
  */
 export function ageBin(ageYears: number): number | null {
   if (ageYears < 50) {
     return null;
   }
-  if (ageYears >= 90) {
-    return 90;
-  }
   return Math.floor(ageYears / 5) * 5;
 }
 
+/**
+ * Get available age bins (rows) from a table
+ * Returns sorted array ascending (50, 55, ...)
+ */
+export function getAvailableAgeBins(table: ThresholdTable): number[] {
+  return Array.from(new Set(table.entries.map((e) => e.age))).sort((a, b) => a - b);
+}
+
+/**
+ * Resolve the age row of one table following pseudocode rules:
+ * age_bin = floor_to_bin(age_years, 5), clamped into MIN(age_bins)..MAX(age_bins)
+ * of this table (derived from the entries present).
+ * Returns null if the table has no entries.
+ */
+export function ageBinForTable(ageYears: number, table: ThresholdTable): number | null {
+  const ageBins = getAvailableAgeBins(table);
+  if (ageBins.length === 0) {
+    return null;
+  }
+  const floored = Math.floor(ageYears / 5) * 5;
+  return Math.min(Math.max(floored, ageBins[0]), ageBins[ageBins.length - 1]);
+}
+
 /**
  * Get available T-score bins from a table (excluding "no_bmd")
  * Returns sorted array from best (0.0) to worst (most negative)
@@ -47,13 +65,50 @@ export function getAvailableTscoreBins(table: ThresholdTable): number[] {
 }
 
 /**
- * Map T-Score to the correct DVO bin following pseudocode rules:
- * 1. Exact match → return that bin
- * 2. Better than best bin (> 0.0) → return 0.0
- * 3. Worse than worst bin → return worst bin
- * 4. Between bins → return next worse (more negative) bin
+ * Get the T-score bins with a value in one age row (excluding "no_bmd")
+ * Empty cells are not listed in the table data, so these are the row-available bins.
+ * Returns sorted array from best (0.0) to worst (most negative)
  */
-export function mapTscoreToBin(tscore: number, availableBins: number[]): number {
+export function getRowTscoreBins(table: ThresholdTable, ageBin: number): number[] {
+  return getAvailableTscoreBins({ ...table, entries: table.entries.filter((entry) => entry.age === ageBin) });
+}
+
+/**
+ * German labels for the T-score mapping reasons (transparency display)
+ */
+export const TSCORE_MAPPING_REASON_LABELS: Record<TscoreMappingReason, string> = {
+  exact: "exakter Treffer",
+  between_bins: "zwischen Spalten → nächst schlechtere",
+  clamped_best: "besser als beste Spalte der Altersreihe → beste Spalte",
+  clamped_worst: "schlechter als schlechteste belegte Spalte der Altersreihe → diese Spalte",
+};
+
+/**
+ * Required factor of a threshold for display ("leer" = threshold reached by an empty cell)
+ */
+export function formatRequiredFactor(threshold: ThresholdResult | undefined): string {
+  if (!threshold) return "N/A";
+  if (threshold.lookup.status === "empty_reached") return "leer";
+  if (threshold.lookup.status === "not_covered") return "nicht abgedeckt";
+  return threshold.lookup.required_factor.toFixed(2);
+}
+
+/**
+ * T-score column of a threshold with the mapping rule that selected it
+ */
+export function formatTscoreColumn(threshold: ThresholdResult | undefined): string {
+  if (!threshold?.tscoreMapping) return "ohne BMD";
+  return `${threshold.tscoreMapping.bin.toFixed(1)} (${TSCORE_MAPPING_REASON_LABELS[threshold.tscoreMapping.reason]})`;
+}
+
+/**
+ * Map T-Score to the correct DVO bin following pseudocode rules and report which rule applied:
+ * 1. Exact match → return that bin (exact)
+ * 2. Better than best bin (> 0.0) → return 0.0 (clamped_best)
+ * 3. Worse than worst bin → return worst bin (clamped_worst)
+ * 4. Between bins → return next worse (more negative) bin (between_bins)
+ */
+export function mapTscoreToBinWithReason(tscore: number, availableBins: number[]): TscoreMapping {
   if (availableBins.length === 0) {
     throw new Error("No T-score bins available");
   }
@@ -65,17 +120,17 @@ export function mapTscoreToBin(tscore: number, availableBins: number[]): number
   
   // 1. Exact match
   if (sortedBins.includes(tscore)) {
-    return tscore;
+    return { bin: tscore, reason: "exact" };
   }
   
   // 2. Better than best bin (> 0.0) → return 0.0
   if (tscore > bestBin) {
-    return bestBin;
+    return { bin: bestBin, reason: "clamped_best" };
   }
   
   // 3. Worse than worst bin → return worst bin
   if (tscore < worstBin) {
-    return worstBin;
+    return { bin: worstBin, reason: "clamped_worst" };
   }
   
   // 4. Between bins → return next worse (more negative)
@@ -85,17 +140,30 @@ export function mapTscoreToBin(tscore: number, availableBins: number[]): number
     const curr = sortedBins[i + 1]; // More negative (worse)
     
     if (tscore < prev && tscore > curr) {
-      return curr; // Next worse bin
+      return { bin: curr, reason: "between_bins" }; // Next worse bin
     }
   }
   
   // Fallback (should not happen due to guards above)
-  return worstBin;
+  return { bin: worstBin, reason: "clamped_worst" };
+}
+
+/**
+ * Map T-Score to the correct DVO bin (bin only, see mapTscoreToBinWithReason)
+ */
+export function mapTscoreToBin(tscore: number, availableBins: number[]): number {
+  return mapTscoreToBinWithReason(tscore, availableBins).bin;
 }
 
 /**
  * Unified lookup function for both "no_bmd" and T-score bins
- * Returns the required_factor if found, null if not found
+ *
+ * Distinguishes three outcomes:
+ * - value: cell exists → required_factor
+ * - empty_reached: the age row exists but ends before this column
+ *   (trailing empty cells / missing no_bmd = threshold already reached without RF)
+ * - not_covered: table, age row or T-score column do not exist, or the cell
+ *   is a gap inside the row → data error, never counted as reached
  */
 export function lookupCell(
   bundle: DVOBundle,
@@ -103,32 +171,64 @@ export function lookupCell(
   thresholdPercent: 3 | 5 | 10,
   ageBin: number,
   tscoreBinOrNoBmd: number | "no_bmd"
-): number | null {
+): LookupResult {
   const table = bundle.tables.find(
     (t: ThresholdTable) =>
       t.sex === sex && t.threshold_percent === thresholdPercent
   );
 
   if (!table) {
-    return null;
+    return {
+      status: "not_covered",
+      reason_de: `Tabelle fehlt (${sex}, ${thresholdPercent}%)`,
+    };
+  }
+
+  const rowEntries = table.entries.filter((e) => e.age === ageBin);
+  if (rowEntries.length === 0) {
+    return {
+      status: "not_covered",
+      reason_de: `Altersreihe ${ageBin} fehlt in Tabelle ${sex} ${thresholdPercent}%`,
+    };
   }
 
   const tscoreKey = tscoreBinOrNoBmd === "no_bmd" 
     ? "no_bmd" 
-    : typeof tscoreBinOrNoBmd === "number"
-    ? tscoreBinOrNoBmd.toFixed(1) // Convert -1.0 to "-1.0" to match JSON format
-    : tscoreBinOrNoBmd;
+    : tscoreBinOrNoBmd.toFixed(1); // Convert -1.0 to "-1.0" to match JSON format
+
+  const entry = rowEntries.find((e) => e.tscore === tscoreKey);
+  if (entry) {
+    return { status: "value", required_factor: entry.required_factor };
+  }
+
+  if (tscoreBinOrNoBmd === "no_bmd") {
+    return { status: "empty_reached" };
+  }
+
+  if (!getAvailableTscoreBins(table).includes(tscoreBinOrNoBmd)) {
+    return {
+      status: "not_covered",
+      reason_de: `T-Score-Spalte ${tscoreKey} fehlt in Tabelle ${sex} ${thresholdPercent}%`,
+    };
+  }
 
-  const entry = table.entries.find(
-    (e) => e.age === ageBin && e.tscore === tscoreKey
+  // Empty cells only occur at the end of a row (worse T-scores); a worse
+  // bin with a value means this cell is a gap, not an intentional empty cell
+  const hasWorseValue = rowEntries.some(
+    (e) => e.tscore !== "no_bmd" && parseFloat(e.tscore) < tscoreBinOrNoBmd
   );
+  if (hasWorseValue) {
+    return {
+      status: "not_covered",
+      reason_de: `Lücke in Tabelle ${sex} ${thresholdPercent}% (Alter ${ageBin}, T-Score ${tscoreKey})`,
+    };
+  }
 
-  return entry ? entry.required_factor : null;
+  return { status: "empty_reached" };
 }
 
 /**
  * Lookup the "no_bmd" cell value for given parameters
- * Returns the required_factor if found, null if not found
  * (Backward-compatible wrapper)
  */
 export function lookupNoBmdCell(
@@ -136,18 +236,25 @@ export function lookupNoBmdCell(
   sex: "female" | "male",
   thresholdPercent: 3 | 5 | 10,
   ageBin: number
-): number | null {
+): LookupResult {
   return lookupCell(bundle, sex, thresholdPercent, ageBin, "no_bmd");
 }
 
 /**
- * Determine if threshold is reached based on lookup result
- * Inverted logic: null (missing cell) => true (reached), number => false (not reached)
+ * Get the required factor from a lookup result, null unless a value was found
+ */
+export function requiredFactorOf(lookup: LookupResult): number | null {
+  return lookup.status === "value" ? lookup.required_factor : null;
+}
+
+/**
+ * Determine if threshold is reached based on lookup result (without RF)
+ * Only an intentionally empty cell counts as reached; uncovered cells never do.
  */
 export function thresholdReachedFromLookup(
-  cellValue: number | null
+  lookup: LookupResult
 ): boolean {
-  return cellValue === null;
+  return lookup.status === "empty_reached";
 }
 
 /**
@@ -0,0 +1,253 @@
+import type {
+  ContraindicationContext,
+  EventInput,
+  FractureType,
+  OralGcCourse,
+  PermalinkDecodeResult,
+  PermalinkState,
+  RfCatalog,
+} from './types';
+import { DEFAULT_BUNDLE_VERSION, getBundle } from './bundleRegistry';
+import { CONTRAINDICATION_FLAGS, createEmptyContraindicationContext } from './contraindications';
+import { createEmptyEventInput, isValidIsoDate, todayIsoDate } from './events';
+import { buildMegIndex, findMegConflicts, getAllRiskFactors, loadRfCatalog } from './rfCatalog';
+
+/**
+ * Compact URL-hash encoding of the assessment state
+ *
+ * Format (URLSearchParams, all fields optional except the versions):
+ *   s=f|m  a=<age>  t=<T-score>  p=1 (postmenopausal)  rf=<id>.<id>...
+ *   fx=<h|v|o><JJJJ-MM-TT>.<...> (fractures)  fa=<falls in 12 months>
+ *   gc=<mg/day>_<months>_<0|1 started/increased in 12 months> (oral GC)
+ *   ci=<flag>.<flag>...  r=0|1 (renal_ok, absent = unknown)  hs=1 (recent hip fracture surgery)
+ *   d=<JJJJ-MM-TT> (date the event rules were evaluated at)
+ *   b=<threshold bundle version>  c=<RF catalog version>
+ *
+ * Both data versions are always written, so a link created with an older
+ * RF catalog or threshold bundle is flagged when it is opened.
+ */
+
+const RF_SEPARATOR = ".";
+const GC_SEPARATOR = "_";
+
+const FRACTURE_CODES: Record<FractureType, string> = {
+  hip: "h",
+  vertebral: "v",
+  other: "o",
+};
+
+function catalogVersion(catalog: RfCatalog): string {
+  return catalog.meta?.version ?? "unbekannt";
+}
+
+function hasEvents(events: EventInput): boolean {
+  return events.fracture.length > 0 || events.falls_last_12m !== null || events.oral_gc !== null;
+}
+
+/**
+ * Encode the assessment state as URL hash (without leading "#")
+ */
+export function encodePermalink(state: PermalinkState, catalog: RfCatalog = loadRfCatalog()): string {
+  const params = new URLSearchParams();
+  if (state.sex) params.set("s", state.sex === "female" ? "f" : "m");
+  if (state.age !== null) params.set("a", String(state.age));
+  if (state.tscoreTotalHip !== null) params.set("t", String(state.tscoreTotalHip));
+  if (state.sex === "female" && state.postmenopausal) params.set("p", "1");
+  if (state.selectedRfIds.length > 0) params.set("rf", [...state.selectedRfIds].sort().join(RF_SEPARATOR));
+
+  const { fracture, falls_last_12m, oral_gc } = state.events;
+  if (fracture.length > 0) {
+    params.set("fx", fracture.map((f) => `${FRACTURE_CODES[f.type]}${f.date}`).join(RF_SEPARATOR));
+  }
+  if (falls_last_12m !== null) params.set("fa", String(falls_last_12m));
+  if (oral_gc !== null) {
+    params.set(
+      "gc",
+      [oral_gc.pred_eq_mg_per_day, oral_gc.duration_months, oral_gc.started_or_dose_increased_within_last_12m ? 1 : 0]
+        .join(GC_SEPARATOR)
+    );
+  }
+  if (hasEvents(state.events) && state.referenceDate) params.set("d", state.referenceDate);
+
+  const flags = CONTRAINDICATION_FLAGS.filter(({ key }) => state.contraindications[key]).map(({ key }) => key);
+  if (flags.length > 0) params.set("ci", flags.join(RF_SEPARATOR));
+  if (state.contraindications.renal_ok !== null) params.set("r", state.contraindications.renal_ok ? "1" : "0");
+  if (state.hasRecentHipFractureSurgery) params.set("hs", "1");
+
+  params.set("b", state.bundleVersion);
+  params.set("c", catalogVersion(catalog));
+  return params.toString();
+}
+
+/**
+ * Decode fracture, fall and GC parameters; invalid parts are reported and skipped
+ */
+function decodeEvents(params: URLSearchParams, warnings_de: string[]): EventInput {
+  const events = createEmptyEventInput();
+
+  for (const code of (params.get("fx") ?? "").split(RF_SEPARATOR).filter(Boolean)) {
+    const type = (Object.keys(FRACTURE_CODES) as FractureType[]).find((t) => FRACTURE_CODES[t] === code[0]);
+    const date = code.slice(1);
+    if (!type || !isValidIsoDate(date)) {
+      warnings_de.push(`Fraktur im Link ungültig („${code}") – nicht übernommen.`);
+      continue;
+    }
+    events.fracture.push({ type, date });
+  }
+
+  const falls = params.get("fa");
+  if (falls !== null) {
+    const value = Number(falls);
+    if (falls !== "" && Number.isInteger(value) && value >= 0) {
+      events.falls_last_12m = value;
+    } else {
+      warnings_de.push(`Sturzanzahl im Link ungültig („${falls}") – nicht übernommen.`);
+    }
+  }
+
+  const gc = params.get("gc");
+  if (gc !== null) {
+    const [mg, months, recent] = gc.split(GC_SEPARATOR);
+    const course: OralGcCourse = {
+      pred_eq_mg_per_day: Number(mg),
+      duration_months: Number(months),
+      started_or_dose_increased_within_last_12m: recent === "1",
+    };
+    const valid =
+      !!mg && !!months && (recent === "0" || recent === "1") &&
+      Number.isFinite(course.pred_eq_mg_per_day) && course.pred_eq_mg_per_day >= 0 &&
+      Number.isFinite(course.duration_months) && course.duration_months >= 0;
+    if (valid) {
+      events.oral_gc = course;
+    } else {
+      warnings_de.push(`Glukokortikoid-Angabe im Link ungültig („${gc}") – nicht übernommen.`);
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Decode contraindication flags and renal function; unknown flags are reported
+ */
+function decodeContraindications(params: URLSearchParams, warnings_de: string[]): ContraindicationContext {
+  const contraindications = createEmptyContraindicationContext();
+
+  for (const key of (params.get("ci") ?? "").split(RF_SEPARATOR).filter(Boolean)) {
+    const flag = CONTRAINDICATION_FLAGS.find((f) => f.key === key);
+    if (flag) {
+      contraindications[flag.key] = true;
+    } else {
+      warnings_de.push(`Unbekannte Kontraindikation im Link („${key}") – nicht übernommen.`);
+    }
+  }
+
+  const renal = params.get("r");
+  if (renal === "1" || renal === "0") {
+    contraindications.renal_ok = renal === "1";
+  } else if (renal !== null) {
+    warnings_de.push(`Nierenfunktion im Link ungültig („${renal}") – nicht übernommen.`);
+  }
+
+  return contraindications;
+}
+
+/**
+ * Decode a URL hash into an assessment state
+ * Unknown RF IDs and data version mismatches are reported, never dropped silently.
+ *
+ * @param hash - location.hash (with or without leading "#")
+ * @param catalog - Current RF catalog (default: bundled RF catalog)
+ * @param today - ISO date the opened case is assessed at (12-month event rules)
+ */
+export function decodePermalink(
+  hash: string,
+  catalog: RfCatalog = loadRfCatalog(),
+  today: string = todayIsoDate()
+): PermalinkDecodeResult {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (!params.has("s") && !params.has("a") && !params.has("rf")) {
+    return { state: null, unknownRfIds: [], warnings_de: [] };
+  }
+
+  const warnings_de: string[] = [];
+  const numberParam = (key: string, label: string): number | null => {
+    const raw = params.get(key);
+    if (raw === null || raw === "") return null;
+    const value = Number(raw);
+    if (!Number.isFinite(value)) {
+      warnings_de.push(`${label} im Link ungültig („${raw}") – nicht übernommen.`);
+      return null;
+    }
+    return value;
+  };
+
+  const sexParam = params.get("s");
+  const sex = sexParam === "f" ? "female" : sexParam === "m" ? "male" : null;
+  if (sexParam !== null && sex === null) {
+    warnings_de.push(`Geschlecht im Link ungültig („${sexParam}") – nicht übernommen.`);
+  }
+
+  const knownRfIds = new Set(getAllRiskFactors(catalog).map((rf) => rf.rf_id));
+  const linkedRfIds = (params.get("rf") ?? "").split(RF_SEPARATOR).filter(Boolean);
+  const unknownRfIds = linkedRfIds.filter((id) => !knownRfIds.has(id));
+  if (unknownRfIds.length > 0) {
+    warnings_de.push(`Unbekannte Risikofaktoren im Link (nicht ausgewählt): ${unknownRfIds.join(", ")}`);
+  }
+
+  // Hand-edited links can combine mutually exclusive RFs: keep the first of each group
+  const excludedRfIds = new Set<string>();
+  for (const [kept, ...dropped] of findMegConflicts(linkedRfIds, buildMegIndex(catalog))) {
+    dropped.forEach((id) => excludedRfIds.add(id));
+    warnings_de.push(
+      `Sich gegenseitig ausschließende Risikofaktoren im Link: ${kept} übernommen, ${dropped.join(", ")} nicht ausgewählt.`
+    );
+  }
+
+  const events = decodeEvents(params, warnings_de);
+  const contraindications = decodeContraindications(params, warnings_de);
+
+  // Event dates are re-evaluated at today's date: the 12-month rules can differ from the sender's result
+  const referenceDate = params.get("d");
+  if (hasEvents(events) && referenceDate !== today) {
+    warnings_de.push(
+      `${referenceDate ? `Link wurde am ${referenceDate} erstellt` : "Link ohne Erstellungsdatum"} – ` +
+      `Frakturen, Stürze und Glukokortikoide ` +
+      `werden zum heutigen Datum bewertet, Risikoband und Trigger können abweichen.`
+    );
+  }
+
+  const linkCatalogVersion = params.get("c");
+  if (linkCatalogVersion !== catalogVersion(catalog)) {
+    warnings_de.push(
+      `Link wurde mit RF-Katalog ${linkCatalogVersion ?? "ohne Versionsangabe"} erstellt ` +
+      `(aktuell ${catalogVersion(catalog)}) – Auswahl bitte prüfen.`
+    );
+  }
+
+  let bundleVersion = params.get("b") ?? DEFAULT_BUNDLE_VERSION;
+  if (!getBundle(bundleVersion)) {
+    warnings_de.push(
+      `Schwellentabellen-Version ${bundleVersion} aus dem Link ist nicht verfügbar – ` +
+      `verwendet wird ${DEFAULT_BUNDLE_VERSION}.`
+    );
+    bundleVersion = DEFAULT_BUNDLE_VERSION;
+  }
+
+  return {
+    state: {
+      sex,
+      age: numberParam("a", "Alter"),
+      tscoreTotalHip: numberParam("t", "T-Score"),
+      selectedRfIds: linkedRfIds.filter((id) => knownRfIds.has(id) && !excludedRfIds.has(id)),
+      postmenopausal: sex === "female" && params.get("p") === "1",
+      contraindications,
+      hasRecentHipFractureSurgery: params.get("hs") === "1",
+      events,
+      referenceDate,
+      bundleVersion,
+    },
+    unknownRfIds,
+    warnings_de,
+  };
+}
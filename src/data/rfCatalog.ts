@@ -64,6 +64,21 @@ export function buildMegIndex(catalog: RfCatalog): MegIndex {
   return { megToRfs, rfToMeg };
 }
 
+/**
+ * Find mutually exclusive RFs selected together (single_choice_optional MEGs)
+ * For RF IDs that do not pass the UI toggles (command line, CSV, links).
+ * Returns one list per conflicting MEG, in input order.
+ */
+export function findMegConflicts(rfIds: Iterable<string>, megIndex: MegIndex): string[][] {
+  const byMeg = new Map<string, string[]>();
+  for (const rfId of new Set(rfIds)) {
+    const megId = megIndex.rfToMeg.get(rfId) ?? null;
+    if (!megId || megIndex.megToRfs.get(megId)?.mode !== 'single_choice_optional') continue;
+    byMeg.set(megId, [...(byMeg.get(megId) ?? []), rfId]);
+  }
+  return Array.from(byMeg.values()).filter((ids) => ids.length > 1);
+}
+
 /**
  * Enforce MEG rules when toggling an RF
  * - If selecting: removes all other RFs in the same MEG
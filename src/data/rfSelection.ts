@@ -1,7 +1,8 @@
-import type { RiskFactor, SelectedRfInfo } from './types';
+import type { DiscardedRf, LookupResult, RiskFactor, SelectedRfInfo, Top2Selection } from './types';
 
 /**
- * Select Top-2 risk factors following DVO pseudocode logic exactly
+ * Select Top-2 risk factors following DVO pseudocode logic exactly,
+ * keeping the pool and the reason why every other selected RF was discarded
  * 
  * Logic:
  * 1. Map selected RF IDs to RiskFactor objects
@@ -11,16 +12,13 @@ import type { RiskFactor, SelectedRfInfo } from './types';
  * 5. Sort pool DESC by rr_3y
  * 6. Return top 2 with pool source metadata
  */
-export function selectTop2RiskFactors(
+export function explainTop2Selection(
   selectedRfIds: Set<string>,
   allRfs: RiskFactor[]
-): SelectedRfInfo[] {
+): Top2Selection {
   // 1. Map selected RF IDs to RiskFactor objects
   const selectedRfs = allRfs.filter((rf) => selectedRfIds.has(rf.rf_id));
-
-  if (selectedRfs.length === 0) {
-    return [];
-  }
+  const discarded: DiscardedRf[] = [];
 
   // 2. Exclusive groups: keep only strongest per group
   const g1Rfs = selectedRfs.filter((rf) => rf.group === "G1_STURZ");
@@ -39,26 +37,53 @@ export function selectTop2RiskFactors(
       )
     : null;
 
+  for (const rf of g1Rfs.filter((rf) => rf !== best_g1)) {
+    discarded.push({ rf, reason: "group_exclusive", reason_de: "G1 (Sturz) exklusiv: nur der stärkste RF zählt" });
+  }
+  for (const rf of g2Rfs.filter((rf) => rf !== best_g2)) {
+    discarded.push({ rf, reason: "group_exclusive", reason_de: "G2 (RA/GC) exklusiv: nur der stärkste RF zählt" });
+  }
+
   // 3. Non-exclusive group: sort DESC and take up to 2 strongest
   const sorted_g3 = [...g3Rfs].sort((a, b) => b.rr_3y - a.rr_3y);
   const g3_1 = sorted_g3.length >= 1 ? sorted_g3[0] : null;
   const g3_2 = sorted_g3.length >= 2 ? sorted_g3[1] : null;
 
+  for (const rf of sorted_g3.slice(2)) {
+    discarded.push({ rf, reason: "g3_limit", reason_de: "G3: nur die zwei stärksten RF gelangen in den Pool" });
+  }
+
   // 4. Build pool (omit nulls)
-  const pool: Array<{ rf: RiskFactor; source: string }> = [];
-  if (best_g1) pool.push({ rf: best_g1, source: "G1_STURZ" });
-  if (best_g2) pool.push({ rf: best_g2, source: "G2_RA_GC" });
-  if (g3_1) pool.push({ rf: g3_1, source: "G3_OTHER_1" });
-  if (g3_2) pool.push({ rf: g3_2, source: "G3_OTHER_2" });
+  const pool: SelectedRfInfo[] = [];
+  if (best_g1) pool.push({ rf: best_g1, poolSource: "G1_STURZ" });
+  if (best_g2) pool.push({ rf: best_g2, poolSource: "G2_RA_GC" });
+  if (g3_1) pool.push({ rf: g3_1, poolSource: "G3_OTHER_1" });
+  if (g3_2) pool.push({ rf: g3_2, poolSource: "G3_OTHER_2" });
 
   // 5. Sort pool DESC by rr_3y
   pool.sort((a, b) => b.rf.rr_3y - a.rf.rr_3y);
 
-  // 6. Return top 2
-  return pool.slice(0, 2).map((item) => ({
-    rf: item.rf,
-    poolSource: item.source,
-  }));
+  // 6. Top 2; the rest of the pool loses by lower RR
+  for (const item of pool.slice(2)) {
+    discarded.push({ rf: item.rf, reason: "lower_rr", reason_de: "Pool: nur die zwei höchsten RR werden kombiniert" });
+  }
+
+  return {
+    pool,
+    chosen: pool.slice(0, 2),
+    discarded,
+  };
+}
+
+/**
+ * Select Top-2 risk factors following DVO pseudocode logic exactly
+ * (see explainTop2Selection for the full selection including discarded RFs)
+ */
+export function selectTop2RiskFactors(
+  selectedRfIds: Set<string>,
+  allRfs: RiskFactor[]
+): SelectedRfInfo[] {
+  return explainTop2Selection(selectedRfIds, allRfs).chosen;
 }
 
 /**
@@ -79,8 +104,9 @@ export function computeCombinedMultiplier(chosenRfs: SelectedRfInfo[]): number {
 }
 
 /**
- * Determine if threshold is reached based on required factor and multiplier
+ * Determine if threshold is reached based on lookup result and multiplier
  * Returns both the result and reason for transparency
+ * Uncovered cells (data error) are never reached.
  * 
  * Uses epsilon tolerance to handle floating-point precision issues.
  * For example: 1.5 * 1.4 = 2.0999999999999996 instead of exactly 2.1
@@ -88,10 +114,16 @@ export function computeCombinedMultiplier(chosenRfs: SelectedRfInfo[]): number {
 const EPSILON = 1e-9; // Very small tolerance for floating-point comparisons
 
 export function isThresholdReached(
-  requiredFactor: number | null,
+  lookup: LookupResult,
   multiplier: number
 ): { reached: boolean; reason: string } {
-  if (requiredFactor === null) {
+  if (lookup.status === "not_covered") {
+    return {
+      reached: false,
+      reason: `Datenfehler: ${lookup.reason_de}`,
+    };
+  }
+  if (lookup.status === "empty_reached") {
     return {
       reached: true,
       reason: "Leeres Tabellenfeld: Schwelle bereits ohne RF erreicht",
@@ -101,7 +133,7 @@ export function isThresholdReached(
   // Use epsilon tolerance: multiplier >= (requiredFactor - epsilon)
   // This handles cases where floating-point arithmetic produces values like
   // 2.0999999999999996 instead of exactly 2.1
-  const reached = multiplier >= (requiredFactor - EPSILON);
+  const reached = multiplier >= (lookup.required_factor - EPSILON);
   return {
     reached,
     reason: "Multiplikator vs. erforderlicher Faktor",
@@ -0,0 +1,137 @@
+import type { AssessmentResult, DataVersions, PatientInput, SavedCase, StoredPatientInput } from './types';
+import { assessPatient } from './assessment';
+import { DEFAULT_BUNDLE_VERSION, getBundle, getDefaultBundle } from './bundleRegistry';
+import { loadEvidenceTable } from './evidenceTable';
+import { loadRfCatalog } from './rfCatalog';
+import { loadSubstanceMetadata } from './substanceMetadata';
+import { loadSubstanceRegistry } from './substanceRegistry';
+
+/**
+ * Saved cases: pseudonymised inputs plus the full result and the versions of
+ * all context files it was computed with. Pure functions only; persistence
+ * lives in utils/caseStorage.ts.
+ */
+
+const UNKNOWN_VERSION = "unbekannt";
+
+export const DATA_VERSION_LABELS: Record<keyof DataVersions, string> = {
+  threshold_bundle: "Schwellentabellen",
+  rf_catalog: "RF-Katalog",
+  evidence_table: "Evidenztabelle",
+  substance_metadata: "Substanz-Metadaten",
+  substance_registry: "Substanz-Registry",
+};
+
+/**
+ * Versions of the bundled context files
+ *
+ * @param bundleVersion - Threshold bundle in use (default: current default bundle)
+ */
+export function getContextDataVersions(bundleVersion: string = DEFAULT_BUNDLE_VERSION): DataVersions {
+  return {
+    threshold_bundle: bundleVersion,
+    rf_catalog: loadRfCatalog().meta?.version ?? UNKNOWN_VERSION,
+    evidence_table: loadEvidenceTable().meta?.version ?? UNKNOWN_VERSION,
+    substance_metadata: loadSubstanceMetadata().meta?.version ?? UNKNOWN_VERSION,
+    substance_registry: loadSubstanceRegistry().meta?.version ?? UNKNOWN_VERSION,
+  };
+}
+
+/**
+ * Context files whose version differs from the current data (empty if up to date)
+ */
+export function getOutdatedDataVersions(saved: SavedCase): Array<keyof DataVersions> {
+  const current = getContextDataVersions();
+  return (Object.keys(current) as Array<keyof DataVersions>).filter(
+    (key) => saved.data_versions[key] !== current[key]
+  );
+}
+
+export function toStoredInput(input: PatientInput): StoredPatientInput {
+  return { ...input, selectedRfIds: Array.from(input.selectedRfIds) };
+}
+
+export function fromStoredInput(stored: StoredPatientInput): PatientInput {
+  return { ...stored, selectedRfIds: new Set(stored.selectedRfIds) };
+}
+
+/**
+ * Create a new saved case from the current assessment
+ */
+export function createSavedCase(
+  pseudonym: string,
+  input: PatientInput,
+  result: AssessmentResult | null,
+  bundleVersion: string = DEFAULT_BUNDLE_VERSION,
+  now: Date = new Date()
+): SavedCase {
+  const timestamp = now.toISOString();
+  return {
+    id: crypto.randomUUID(),
+    pseudonym: pseudonym.trim(),
+    created_at: timestamp,
+    updated_at: timestamp,
+    input: toStoredInput(input),
+    result,
+    data_versions: getContextDataVersions(bundleVersion),
+  };
+}
+
+/**
+ * Copy a saved case under a new ID (pseudonym marked as copy)
+ */
+export function duplicateSavedCase(saved: SavedCase, now: Date = new Date()): SavedCase {
+  const timestamp = now.toISOString();
+  return {
+    ...structuredClone(saved),
+    id: crypto.randomUUID(),
+    pseudonym: `${saved.pseudonym} (Kopie)`,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+}
+
+/**
+ * Recompute a saved case with the current data (default threshold bundle)
+ * The stored inputs are kept; result and data versions are replaced.
+ *
+ * @returns Updated case and whether the risk band changed
+ */
+export function recomputeSavedCase(
+  saved: SavedCase,
+  now: Date = new Date()
+): { saved: SavedCase; bandChanged: boolean } {
+  const bundle = getDefaultBundle();
+  const result = assessPatient(fromStoredInput(saved.input), bundle);
+  return {
+    saved: {
+      ...saved,
+      updated_at: now.toISOString(),
+      result,
+      data_versions: getContextDataVersions(bundle.bundle_version),
+    },
+    bandChanged: (saved.result?.band ?? null) !== (result?.band ?? null),
+  };
+}
+
+/**
+ * Filter saved cases by pseudonym or band (case-insensitive), newest first
+ */
+export function searchSavedCases(cases: SavedCase[], query: string): SavedCase[] {
+  const needle = query.trim().toLowerCase();
+  return cases
+    .filter(
+      (c) =>
+        needle === "" ||
+        c.pseudonym.toLowerCase().includes(needle) ||
+        (c.result?.band ?? "").toLowerCase().includes(needle)
+    )
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+/**
+ * Threshold bundle to reopen a saved case with (falls back to the default bundle)
+ */
+export function getSavedCaseBundleVersion(saved: SavedCase): string {
+  return getBundle(saved.data_versions.threshold_bundle) ? saved.data_versions.threshold_bundle : DEFAULT_BUNDLE_VERSION;
+}
@@ -0,0 +1,318 @@
+import type { SchemaIssue } from './types';
+import { listBundles } from './bundleRegistry';
+import { loadRfCatalog } from './rfCatalog';
+import { loadEvidenceTable } from './evidenceTable';
+import { loadSubstanceMetadata } from './substanceMetadata';
+import { loadSubstanceRegistry } from './substanceRegistry';
+import { loadFhirCodeMap } from './fhirCodeMap';
+
+/**
+ * Runtime schema validation of the context/ JSON files
+ *
+ * The loaders only cast the imported JSON to the types in types.ts; these
+ * validators check the actual shape at runtime and report every deviation
+ * with its JSON path (e.g. "tables[2].entries[14].required_factor").
+ * Unknown extra fields are allowed (meta/README blocks evolve freely).
+ */
+
+type Check = (value: unknown, path: string) => void;
+
+/**
+ * Collects issues for one file
+ */
+function createChecker(file: string) {
+  const issues: SchemaIssue[] = [];
+
+  const issue = (path: string, message: string) => {
+    issues.push({ file, path: path || "(root)", message });
+  };
+
+  const describe = (value: unknown): string => {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+  };
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  const string: Check = (value, path) => {
+    if (typeof value !== "string") issue(path, `expected string, got ${describe(value)}`);
+  };
+
+  const number: Check = (value, path) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) issue(path, `expected number, got ${describe(value)}`);
+  };
+
+  const boolean: Check = (value, path) => {
+    if (typeof value !== "boolean") issue(path, `expected boolean, got ${describe(value)}`);
+  };
+
+  const oneOf = (allowed: ReadonlyArray<string | number>): Check => (value, path) => {
+    if (!allowed.includes(value as string | number)) {
+      issue(path, `expected one of ${allowed.map((a) => JSON.stringify(a)).join(", ")}, got ${JSON.stringify(value)}`);
+    }
+  };
+
+  const arrayOf = (item: Check): Check => (value, path) => {
+    if (!Array.isArray(value)) {
+      issue(path, `expected array, got ${describe(value)}`);
+      return;
+    }
+    value.forEach((element, index) => item(element, `${path}[${index}]`));
+  };
+
+  const object = (fields: Record<string, { check: Check; optional?: boolean }>): Check => (value, path) => {
+    if (!isObject(value)) {
+      issue(path, `expected object, got ${describe(value)}`);
+      return;
+    }
+    for (const [key, { check, optional }] of Object.entries(fields)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (!(key in value) || value[key] === undefined) {
+        if (!optional) issue(fieldPath, "missing required field");
+        continue;
+      }
+      check(value[key], fieldPath);
+    }
+  };
+
+  const required = (check: Check) => ({ check });
+  const optional = (check: Check) => ({ check, optional: true });
+
+  return { issues, issue, isObject, string, number, boolean, oneOf, arrayOf, object, required, optional };
+}
+
+const TSCORE_KEY_PATTERN = /^-?\d+\.\d$/;
+
+/**
+ * Validate a threshold table bundle against DVOBundle
+ */
+export function validateThresholdBundle(data: unknown, file: string): SchemaIssue[] {
+  const c = createChecker(file);
+
+  const tscoreKey: Check = (value, path) => {
+    if (typeof value !== "string" || (value !== "no_bmd" && !TSCORE_KEY_PATTERN.test(value))) {
+      c.issue(path, `expected "no_bmd" or a T-score like "-2.5", got ${JSON.stringify(value)}`);
+    }
+  };
+
+  const positiveNumber: Check = (value, path) => {
+    c.number(value, path);
+    if (typeof value === "number" && value <= 0) c.issue(path, `expected positive number, got ${value}`);
+  };
+
+  const entry = c.object({
+    age: c.required(c.number),
+    tscore: c.required(tscoreKey),
+    required_factor: c.required(positiveNumber),
+  });
+
+  const table = c.object({
+    sex: c.required(c.oneOf(["female", "male"])),
+    threshold_percent: c.required(c.oneOf([3, 5, 10])),
+    entries: c.required(c.arrayOf(entry)),
+    source: c.optional(c.object({
+      document: c.required(c.string),
+      pages: c.required(c.arrayOf(c.number)),
+    })),
+  });
+
+  c.object({
+    README: c.optional(c.object({
+      purpose: c.optional(c.string),
+      source_of_truth: c.optional(c.string),
+      how_to_extend: c.optional(c.arrayOf(c.string)),
+      lookup_rules: c.optional(c.arrayOf(c.string)),
+      created_at_utc: c.optional(c.string),
+    })),
+    bundle_version: c.required(c.string),
+    tables: c.required(c.arrayOf(table)),
+  })(data, "");
+
+  return c.issues;
+}
+
+/**
+ * Validate the RF catalog against RfCatalog
+ * rr_3y may only be null for RFs that are not included_in_risk_calc.
+ */
+export function validateRfCatalog(data: unknown, file: string): SchemaIssue[] {
+  const c = createChecker(file);
+
+  const riskFactor: Check = (value, path) => {
+    c.object({
+      rf_id: c.required(c.string),
+      label_de: c.required(c.string),
+      group: c.required(c.oneOf(["G1_STURZ", "G2_RA_GC", "G3_OTHER"])),
+      included_in_risk_calc: c.required(c.boolean),
+      flags: c.optional(c.object({
+        imminent_rr: c.optional(c.boolean),
+        strong_irreversible_A: c.optional(c.boolean),
+      })),
+      source_ref: c.optional(c.string),
+      mutual_exclusion_group_id: c.optional(c.string),
+      exclusion_mode: c.optional(c.string),
+      ui_hidden_when_other_selected: c.optional(c.boolean),
+      ui_disclosure_text: c.optional(c.string),
+    })(value, path);
+
+    if (c.isObject(value)) {
+      const rrPath = `${path}.rr_3y`;
+      if (value.rr_3y === null || value.rr_3y === undefined) {
+        if (value.included_in_risk_calc === true) {
+          c.issue(rrPath, "expected number for an RF included_in_risk_calc");
+        }
+      } else {
+        c.number(value.rr_3y, rrPath);
+      }
+    }
+  };
+
+  c.object({
+    meta: c.optional(c.object({
+      mutual_exclusion_groups: c.optional(c.arrayOf(c.object({
+        id: c.required(c.string),
+        label_de: c.required(c.string),
+        mode: c.required(c.string),
+        ui_default: c.required(c.string),
+      }))),
+    })),
+    risk_factors: c.required(c.arrayOf(riskFactor)),
+  })(data, "");
+
+  return c.issues;
+}
+
+/**
+ * Validate the medication evidence table against EvidenceTable
+ */
+export function validateEvidenceTable(data: unknown, file: string): SchemaIssue[] {
+  const c = createChecker(file);
+
+  c.object({
+    substances: c.required(c.arrayOf(c.object({
+      substance_id: c.required(c.string),
+      label_de: c.required(c.string),
+      evidence_level: c.required(c.oneOf(["A", "B", "C"])),
+      fracture_efficacy: c.required(c.object({
+        hip: c.required(c.boolean),
+        vertebral: c.required(c.boolean),
+      })),
+      evidence_note_de: c.required(c.string),
+      source_refs: c.required(c.arrayOf(c.string)),
+    }))),
+    ordering_rules_v1: c.optional(c.object({
+      description: c.optional(c.string),
+      sort_keys_desc: c.optional(c.arrayOf(c.string)),
+    })),
+  })(data, "");
+
+  return c.issues;
+}
+
+/**
+ * Validate the substance administration metadata against SubstanceMetadataTable
+ */
+export function validateSubstanceMetadata(data: unknown, file: string): SchemaIssue[] {
+  const c = createChecker(file);
+
+  const approval = c.object({
+    approved: c.required(c.boolean),
+    population_note_de: c.optional(c.string),
+  });
+
+  c.object({
+    substances: c.required(c.arrayOf(c.object({
+      substance_id: c.required(c.string),
+      label_de: c.optional(c.string),
+      administration: c.required(c.object({
+        route: c.required(c.oneOf(["oral", "iv", "sc", "mixed"])),
+        frequency_default: c.required(
+          c.oneOf(["daily", "weekly", "monthly", "six_monthly", "quarterly", "yearly", "mixed"])
+        ),
+        setting_default: c.required(c.oneOf(["self", "practice", "mixed"])),
+      })),
+      approval: c.required(c.object({
+        female: c.required(approval),
+        male: c.required(approval),
+      })),
+      notes_de: c.optional(c.string),
+    }))),
+  })(data, "");
+
+  return c.issues;
+}
+
+/**
+ * Validate the substance registry against SubstanceRegistry
+ */
+export function validateSubstanceRegistry(data: unknown, file: string): SchemaIssue[] {
+  const c = createChecker(file);
+
+  c.object({
+    substances: c.required(c.arrayOf(c.object({
+      substance_id: c.required(c.string),
+      label_de: c.required(c.string),
+      therapy_class: c.required(c.oneOf(["osteoanabolic", "antiresorptive"])),
+      drug_class: c.optional(
+        c.oneOf(["bisphosphonate", "rankl_antibody", "serm", "pth_analog", "sclerostin_antibody"])
+      ),
+      active: c.required(c.boolean),
+    }))),
+  })(data, "");
+
+  return c.issues;
+}
+
+/**
+ * Validate the FHIR code table against FhirCodeMap
+ */
+export function validateFhirCodeMap(data: unknown, file: string): SchemaIssue[] {
+  const c = createChecker(file);
+
+  const coding = c.object({
+    system: c.required(c.string),
+    code: c.required(c.string),
+    display: c.optional(c.string),
+    match: c.optional(c.oneOf(["exact", "prefix"])),
+  });
+
+  c.object({
+    rf_system: c.required(c.string),
+    tscore_total_hip: c.required(c.arrayOf(coding)),
+    age: c.required(c.arrayOf(coding)),
+    rf_codes: c.required(c.arrayOf(c.object({
+      rf_id: c.required(c.string),
+      codings: c.required(c.arrayOf(coding)),
+      onset_months: c.optional(c.object({
+        min: c.optional(c.number),
+        max: c.optional(c.number),
+      })),
+      include_resolved: c.optional(c.boolean),
+    }))),
+    substance_codes: c.required(c.arrayOf(c.object({
+      substance_id: c.required(c.string),
+      codings: c.required(c.arrayOf(coding)),
+    }))),
+  })(data, "");
+
+  return c.issues;
+}
+
+/**
+ * Validate every bundled context/ data file
+ * All registered threshold bundles are checked, not only the default one.
+ *
+ * @returns All schema issues (empty if all files are valid)
+ */
+export function validateContextData(): SchemaIssue[] {
+  return [
+    ...listBundles().flatMap((entry) => validateThresholdBundle(entry.bundle, entry.file)),
+    ...validateRfCatalog(loadRfCatalog(), "DVO_RF_Katalog_Rohdaten_v0.5.json"),
+    ...validateEvidenceTable(loadEvidenceTable(), "DVO_Medication_Evidence_Table_v1.0.0.json"),
+    ...validateSubstanceMetadata(loadSubstanceMetadata(), "DVO_Substance_Administration_Metadata_v1.0.0.json"),
+    ...validateSubstanceRegistry(loadSubstanceRegistry(), "DVO_Substance_Registry_v1.1.0.json"),
+    ...validateFhirCodeMap(loadFhirCodeMap(), "DVO_FHIR_Code_Map_v1.0.0.json"),
+  ];
+}
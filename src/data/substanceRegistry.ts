@@ -1,5 +1,5 @@
 import type { SubstanceRegistry, SubstanceRegistryEntry, TherapyClass } from './types';
-import substanceRegistryData from '../../context/DVO_Substance_Registry_v1.0.0.json';
+import substanceRegistryData from '../../context/DVO_Substance_Registry_v1.1.0.json';
 
 const registry = substanceRegistryData as SubstanceRegistry;
 
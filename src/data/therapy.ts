@@ -1,16 +1,53 @@
-import type { RiskBand, TherapyPlan, TherapyStrategy, TherapyClass } from './types';
+import type {
+  RiskBand,
+  TherapyPlan,
+  TherapyStrategy,
+  TherapyClass,
+  TherapyContext,
+  SecondaryConsideration,
+} from './types';
 import { getSubstancesByTherapyClass } from './substanceRegistry';
 
+const NO_DRUG_ACTIONS = ["Basismaßnahmen", "Sturzprävention", "Reevaluation"];
+
+const CONSIDER_RATIONALE = "Nur bei starken/irreversiblen RF oder imminentem Risiko";
+
+/**
+ * Derive Level 2 secondary considerations
+ * 5–<10% with imminent risk: osteoanabolic as grade-0 secondary option
+ */
+function deriveSecondaryConsiderations(
+  riskBand: RiskBand,
+  context: TherapyContext
+): SecondaryConsideration[] {
+  if (riskBand === "5–<10%" && context.imminent_risk) {
+    return [
+      {
+        therapy_class: "osteoanabolic",
+        options: getSubstancesByTherapyClass("osteoanabolic", true),
+        strength: "0",
+        why_de: "imminentes Frakturrisiko",
+      },
+    ];
+  }
+  return [];
+}
+
 /**
  * Derive therapy strategy plan from risk band and trigger presence
- * This is Level 1 (strategy level) - no medication names, no contraindications
+ * Level 1 (strategy level) plus Level 2 fields that do not depend on the
+ * filtered substance list (secondary considerations, rationale, actions).
+ * Special notes depend on allowed options, see deriveSpecialNotes().
  * 
- * Reference: DVO_therapy_engine_pseudocode_v1.txt describes Level 2 (substance level)
+ * Reference: DVO_therapy_engine_pseudocode_v1.txt (recommend_therapy_level2)
  */
 export function deriveTherapyPlan(
   riskBand: RiskBand,
-  triggerPresent: boolean
+  triggerPresent: boolean,
+  context: TherapyContext = { imminent_risk: false, has_recent_hip_fracture_surgery: false }
 ): TherapyPlan {
+  const secondary_considerations = deriveSecondaryConsiderations(riskBand, context);
+
   switch (riskBand) {
     case "<3%":
       return {
@@ -22,6 +59,9 @@ export function deriveTherapyPlan(
           DEGAM: { grade: "-", wording_de: "keine spezifische medikamentöse Therapie" },
         },
         deviation_flag: null,
+        secondary_considerations,
+        special_notes: [],
+        actions: NO_DRUG_ACTIONS,
       };
 
     case "3–<5%":
@@ -35,6 +75,10 @@ export function deriveTherapyPlan(
             DEGAM: { grade: "-", wording_de: "keine spezifische medikamentöse Therapie" },
           },
           deviation_flag: null,
+          secondary_considerations,
+          special_notes: [],
+          required_rationale: CONSIDER_RATIONALE,
+          actions: NO_DRUG_ACTIONS,
         };
       } else {
         return {
@@ -47,6 +91,9 @@ export function deriveTherapyPlan(
             DEGAM: { grade: "0", wording_de: "kann erwogen werden (bei Triggern)" },
           },
           deviation_flag: null,
+          secondary_considerations,
+          special_notes: [],
+          required_rationale: CONSIDER_RATIONALE,
         };
       }
 
@@ -61,6 +108,8 @@ export function deriveTherapyPlan(
           DEGAM: { grade: "A", wording_de: "antiresorptiv empfohlen" },
         },
         deviation_flag: null,
+        secondary_considerations,
+        special_notes: [],
       };
 
     case ">=10%":
@@ -74,10 +123,40 @@ export function deriveTherapyPlan(
           DEGAM: { grade: "B", wording_de: "sollte osteoanabol behandelt werden" },
         },
         deviation_flag: "DEGAM_SOFTENING",
+        secondary_considerations,
+        special_notes: [],
       };
   }
 }
 
+/**
+ * Derive Level 2 special notes
+ * Applied after contraindication filtering, since the zoledronate note
+ * only applies if zoledronate is still an allowed option.
+ *
+ * @param riskBand - Risk band
+ * @param context - Therapy context
+ * @param allowedOptions - Substance IDs after contraindication filtering
+ * @returns Special notes (German, UI-safe)
+ */
+export function deriveSpecialNotes(
+  riskBand: RiskBand,
+  context: TherapyContext,
+  allowedOptions: string[]
+): string[] {
+  const notes: string[] = [];
+
+  if (context.has_recent_hip_fracture_surgery && allowedOptions.includes("zoledronate")) {
+    notes.push("Zoledronat idealerweise ≥2 Wochen postoperativ, sofern Versorgung stabil.");
+  }
+
+  if (context.imminent_risk && (riskBand === "5–<10%" || riskBand === ">=10%")) {
+    notes.push("Bei Kontraindikation gegen Romosozumab kann kurzzeitig Teriparatid + parenterales Antiresorptivum erwogen werden (0).");
+  }
+
+  return notes;
+}
+
 /**
  * Get candidate substance IDs for a therapy strategy
  * Based on pseudocode: maps strategy to therapy class, then gets substances from Registry
@@ -14,6 +14,27 @@ export interface ThresholdTable {
   };
 }
 
+export interface BundleRegistryEntry {
+  bundle_version: string;
+  file: string;               // source file in context/
+  label_de: string;           // e.g. "DVO 2023 Kurzfassung (V2.2)"
+  bundle: DVOBundle;
+}
+
+export interface BundleBandComparison {
+  bundle_version: string;
+  label_de: string;
+  band: RiskBand | null;      // null if the input is out of scope for this bundle
+  changed: boolean;           // band differs from the reference result
+}
+
+// Runtime schema validation of context/ data files
+export interface SchemaIssue {
+  file: string;
+  path: string;               // JSON path, e.g. "tables[2].entries[14].required_factor"
+  message: string;
+}
+
 export interface DVOBundle {
   README?: {
     purpose?: string;
@@ -43,6 +64,23 @@ export interface RiskFactor {
   ui_disclosure_text?: string;
 }
 
+// Threshold lookup result: distinguishes intentionally empty cells
+// (threshold already reached) from cells the bundle does not cover.
+export type LookupStatus = "value" | "empty_reached" | "not_covered";
+
+export type LookupResult =
+  | { status: "value"; required_factor: number }
+  | { status: "empty_reached" }
+  | { status: "not_covered"; reason_de: string };
+
+// T-score column mapping per table (pseudocode rules 4a–4d)
+export type TscoreMappingReason = "exact" | "between_bins" | "clamped_best" | "clamped_worst";
+
+export interface TscoreMapping {
+  bin: number;
+  reason: TscoreMappingReason;
+}
+
 export interface RfCatalog {
   meta?: {
     name?: string;
@@ -66,6 +104,21 @@ export interface SelectedRfInfo {
   poolSource: string; // e.g., "G1_STURZ", "G2_RA_GC", "G3_OTHER_1", "G3_OTHER_2"
 }
 
+// Why a selected RF does not enter the combined multiplier
+export type RfDiscardReason = "not_in_risk_calc" | "group_exclusive" | "g3_limit" | "lower_rr";
+
+export interface DiscardedRf {
+  rf: RiskFactor;
+  reason: RfDiscardReason;
+  reason_de: string;
+}
+
+export interface Top2Selection {
+  pool: SelectedRfInfo[];     // sorted DESC by rr_3y
+  chosen: SelectedRfInfo[];   // top 2 of the pool
+  discarded: DiscardedRf[];
+}
+
 export interface MegIndex {
   megToRfs: Map<string, { rfIds: string[]; mode: string }>;
   rfToMeg: Map<string, string | null>;
@@ -88,6 +141,19 @@ export interface GuidelineStatement {
 
 export type DeviationFlag = "DEGAM_SOFTENING" | null;
 
+// Level 2 context (Reference: DVO_therapy_engine_pseudocode_v1.txt)
+export interface TherapyContext {
+  imminent_risk: boolean;
+  has_recent_hip_fracture_surgery: boolean;
+}
+
+export interface SecondaryConsideration {
+  therapy_class: TherapyClass;
+  options: string[];      // substance IDs from Registry
+  strength: string;       // guideline grade, e.g. "0"
+  why_de: string;
+}
+
 export interface TherapyPlan {
   strategy: TherapyStrategy;
   label_de: string;
@@ -100,6 +166,12 @@ export interface TherapyPlan {
     DVO: GuidelineStatement;
   };
   deviation_flag?: DeviationFlag;
+
+  // Level 2 fields
+  secondary_considerations: SecondaryConsideration[];
+  special_notes: string[];
+  required_rationale?: string;
+  actions?: string[];
 }
 
 // Evidence Table Types
@@ -148,6 +220,7 @@ export interface RankedSubstance {
     efficacyHint: string;        // e.g. "Hüfte + Wirbel"
     note?: string;
     sourceRefs?: string[];
+    excludedReason?: string;     // set for options excluded by contraindications
   };
 }
 
@@ -188,10 +261,18 @@ export interface SubstanceMetadataTable {
 }
 
 // Substance Registry Types (Master Reference)
+export type DrugClass =
+  | "bisphosphonate"
+  | "rankl_antibody"
+  | "serm"
+  | "pth_analog"
+  | "sclerostin_antibody";
+
 export interface SubstanceRegistryEntry {
   substance_id: string;
   label_de: string;
   therapy_class: TherapyClass;
+  drug_class?: DrugClass;
   active: boolean;
 }
 
@@ -209,3 +290,327 @@ export interface SubstanceRegistry {
   substances: SubstanceRegistryEntry[];
 }
 
+
+// Contraindication Engine Types
+// Reference: DVO_contraindication_pseudocode_v1.txt
+export interface ContraindicationContext {
+  renal_ok: boolean | null;              // null = unknown (do not exclude)
+  severe_esophageal_disease: boolean;
+  unable_to_remain_upright: boolean;
+  hypocalcemia_uncontrolled: boolean;
+  recent_cv_event_12m: boolean;          // MI or stroke within 12 months
+  bone_malignancy_or_skeletal_rt: boolean;
+}
+
+export type ContraindicationFlag = Exclude<keyof ContraindicationContext, "renal_ok">;
+
+export interface ExcludedOption {
+  substance_id: string;
+  reason_de: string;
+}
+
+export interface ContraindicationFilterResult {
+  allowed: string[];
+  excluded: ExcludedOption[];
+}
+
+// Event Input Types (fracture entry & IFR)
+// Reference: DVO_Osteoporosis_Risk_Engine_Pseudocode_v1.txt (event.*)
+export type FractureType = "hip" | "vertebral" | "other";
+
+export interface FractureEvent {
+  type: FractureType;
+  date: string;           // ISO date "YYYY-MM-DD"
+}
+
+export interface OralGcCourse {
+  pred_eq_mg_per_day: number;
+  duration_months: number;
+  started_or_dose_increased_within_last_12m: boolean;
+}
+
+export interface EventInput {
+  fracture: FractureEvent[];
+  falls_last_12m: number | null;
+  oral_gc: OralGcCourse | null;
+}
+
+export interface ImminentRiskResult {
+  ifr: boolean;
+  reasons_de: string[];
+}
+
+// Entry Pathway Types
+// Reference: DVO_Osteoporosis_Risk_Engine_Pseudocode_v1.txt (Case Finding, DXA, Fracture entry)
+export type EntryPathway = "case_finding" | "dxa" | "fracture_entry";
+
+export interface EntryPathwayInput {
+  sex: Sex | null;
+  age: number;
+  postmenopausal: boolean;
+  tscoreTotalHip: number | null;
+  events: EventInput;
+  referenceDate: string;
+}
+
+export interface EntryAssessment {
+  pathway: EntryPathway;
+  label_de: string;
+  fracture_entry: boolean;   // FRACTURE_ENTRY flag
+  in_scope: boolean;
+  lookup_age: number;        // age used for table lookup (>= 50 for fracture entry < 50)
+  notices_de: string[];
+}
+
+// Assessment Engine Types (headless, framework-free)
+export type Sex = "female" | "male";
+
+export interface PatientInput {
+  sex: Sex;
+  age: number;
+  tscoreTotalHip: number | null;
+  selectedRfIds: Set<string>;
+  postmenopausal?: boolean;
+  contraindications?: ContraindicationContext;
+  hasRecentHipFractureSurgery?: boolean;
+  events?: EventInput;
+  referenceDate?: string;  // ISO date for "last 12 months" checks (default: today)
+}
+
+export interface ThresholdResult {
+  ageBin: number | null;           // age row of this table (clamped to its own age range)
+  tscoreMapping: TscoreMapping | null;   // null without BMD (no_bmd column)
+  lookup: LookupResult;
+  requiredFactor: number | null;   // null unless lookup.status === "value"
+  reached: boolean;
+  reason: string;
+}
+
+export interface TriggerStatus {
+  imminent: boolean;
+  strongIrreversibleA: boolean;
+  triggerPresent: boolean;
+  imminentRfs: RiskFactor[];
+  strongIrreversibleARfs: RiskFactor[];
+  imminentFromEvents: ImminentRiskResult;
+}
+
+// Decision trace: explain payload (risk engine pseudocode) + ordered rule log
+export type TraceStage =
+  | "entry"
+  | "event_rfs"
+  | "rf_selection"
+  | "multiplier"
+  | "lookup"
+  | "threshold"
+  | "band"
+  | "triggers"
+  | "therapy"
+  | "contraindications";
+
+export interface TraceStep {
+  step: number;               // 1-based, in evaluation order
+  stage: TraceStage;
+  rule: string;               // machine-readable rule id, e.g. "rf_discarded.group_exclusive"
+  detail_de: string;
+  values?: Record<string, string | number | boolean | null>;
+}
+
+export interface ExplainPayload {
+  bundle_version: string;
+  chosen_risk_factors: Array<{ rf_id: string; rr_3y: number; pool_source: string }>;
+  combined_multiplier: number;
+  lookup_mode: "WITH_BMD" | "WITHOUT_BMD";
+  required_multipliers: Record<"3%" | "5%" | "10%", number | null>;
+  risk_band: RiskBand;
+  imminent_fracture_risk: boolean;
+  strong_irreversible_rf: boolean;
+}
+
+export interface DecisionTrace {
+  explain: ExplainPayload;
+  steps: TraceStep[];
+}
+
+export interface AssessmentResult {
+  bundleVersion: string;      // threshold bundle the result was computed with
+  entry: EntryAssessment;
+  ageBin: number;             // age group (floor to 5 years); rows per table in thresholdDetails
+  reached3: boolean;
+  reached5: boolean;
+  reached10: boolean;
+  band: RiskBand;
+  usedBmd: boolean;
+  tscoreMappingNote: string | null;   // transparency text for the per-table T-score mapping
+  multiplier: number;
+  effectiveRfIds: string[];   // selected RFs merged with event-derived RFs
+  eventRfIds: string[];
+  top2Rfs: SelectedRfInfo[];
+  rfPool: SelectedRfInfo[];
+  discardedRfs: DiscardedRf[];
+  thresholdDetails: {
+    threshold3: ThresholdResult;
+    threshold5: ThresholdResult;
+    threshold10: ThresholdResult;
+  };
+  triggers: TriggerStatus;
+  dataErrors: string[];       // uncovered table cells (never counted as reached)
+  recommendation: string;
+  therapyPlan: TherapyPlan;
+  rankedSubstances: RankedSubstance[];
+  excludedSubstances: RankedSubstance[];
+  trace: DecisionTrace;
+}
+
+// Batch assessment (CSV import/export)
+// Column role per CSV column; "rf:<rf_id>" marks a yes/no column for one RF
+export type BatchColumnRole =
+  | "ignore"
+  | "sex"
+  | "age"
+  | "tscore"
+  | "postmenopausal"
+  | "rf_list"              // RF IDs separated by "," or "|" in one cell
+  | `rf:${string}`;
+
+export type BatchColumnMapping = BatchColumnRole[];   // aligned with the CSV header
+
+export interface BatchRowResult {
+  row: number;                       // 1-based data row (header excluded)
+  cells: string[];                   // original CSV cells
+  result: AssessmentResult | null;
+  errors: string[];                  // German; invalid input, out of scope or data errors
+}
+
+// Permalink (assessment state in the URL hash)
+export interface PermalinkState {
+  sex: Sex | null;
+  age: number | null;
+  tscoreTotalHip: number | null;
+  selectedRfIds: string[];
+  postmenopausal: boolean;
+  contraindications: ContraindicationContext;
+  hasRecentHipFractureSurgery: boolean;
+  events: EventInput;
+  referenceDate: string | null;      // date the 12-month event rules were evaluated at when the link was made
+  bundleVersion: string;
+}
+
+export interface PermalinkDecodeResult {
+  state: PermalinkState | null;      // null if the hash holds no assessment state
+  unknownRfIds: string[];            // RF IDs not in the current catalog (not selected)
+  warnings_de: string[];             // unknown RFs, data version mismatch, invalid fields
+}
+
+// Saved cases (local browser storage)
+export interface DataVersions {
+  threshold_bundle: string;
+  rf_catalog: string;
+  evidence_table: string;
+  substance_metadata: string;
+  substance_registry: string;
+}
+
+export interface StoredPatientInput extends Omit<PatientInput, "selectedRfIds"> {
+  selectedRfIds: string[];           // Set is not structured-clone/JSON friendly
+}
+
+export interface SavedCase {
+  id: string;
+  pseudonym: string;                 // no real names: free-text pseudonym chosen by the clinician
+  created_at: string;                // ISO timestamp
+  updated_at: string;                // ISO timestamp (last save or recompute)
+  input: StoredPatientInput;
+  result: AssessmentResult | null;   // null if the input was out of scope
+  data_versions: DataVersions;       // context file versions the result was computed with
+}
+
+// GDT (Gerätedatentransfer) exchange with practice management software
+export interface GdtField {
+  field: string;                     // 4-digit field ID, e.g. "3103"
+  content: string;
+}
+
+export interface GdtPatientRequest {
+  record_type: string;               // 8000: "6302" (new examination) or "6310"
+  sender_id: string;                 // 8316: GDT ID of the practice software
+  receiver_id: string;               // 8315: GDT ID of this tool
+  patient_id: string;                // 3000
+  last_name: string;                 // 3101 (only echoed back in the result record)
+  first_name: string;                // 3102 (only echoed back in the result record)
+  birth_date: string | null;         // 3103 as ISO date
+  sex: Sex | null;                   // 3110: 1 = male, 2 = female
+  age: number | null;                // completed years at the reference date
+  tscore: number | null;             // optional test result (8410 T-Score / 8420 value)
+}
+
+export interface ImportedGdtRequest {
+  request: GdtPatientRequest;
+  case_generation: number;           // case the request was imported into (App bumps it on reset/replace)
+}
+
+// FHIR R4 exchange (code table: context/DVO_FHIR_Code_Map_v1.0.0.json)
+export interface FhirCodeMapCoding {
+  system: string;
+  code: string;
+  display?: string;
+  match?: "exact" | "prefix";        // prefix: also matches sub-codes (M05 → M05.30)
+}
+
+export interface FhirRfCodeMapping {
+  rf_id: string;
+  codings: FhirCodeMapCoding[];
+  onset_months?: { min?: number; max?: number };   // time since onset, min inclusive, max exclusive
+  include_resolved?: boolean;        // also applies to resolved Conditions (past fractures)
+}
+
+export interface FhirSubstanceCodeMapping {
+  substance_id: string;
+  codings: FhirCodeMapCoding[];
+}
+
+export interface FhirCodeMap {
+  meta?: {
+    name?: string;
+    version?: string;
+    created_date?: string;
+    scope?: string;
+    notes?: string[];
+  };
+  rf_system: string;                 // local code system for RF IDs (export and re-import)
+  tscore_total_hip: FhirCodeMapCoding[];
+  age: FhirCodeMapCoding[];          // age Observation (export; import fallback without birth date)
+  rf_codes: FhirRfCodeMapping[];
+  substance_codes: FhirSubstanceCodeMapping[];
+}
+
+export interface FhirImportResult {
+  state: {
+    sex: Sex | null;
+    age: number | null;
+    tscoreTotalHip: number | null;
+    selectedRfIds: string[];
+  } | null;                          // null if the bundle could not be read
+  mappedRfs: Array<{ rf_id: string; source: string }>;   // RF and the Condition code it came from
+  warnings_de: string[];             // unmapped conditions, missing fields, ambiguous values
+  errors_de: string[];
+}
+
+// Printable clinical report
+export interface ReportSource {
+  ref: string;                       // source_ref ID or "document, S. x"
+  used_for_de: string[];             // what the source backs (threshold table, RF, substance)
+}
+
+// Befund text templates (copy to EHR)
+export type BefundTemplateVariant = "short" | "long" | "bullet";
+
+export type BefundTemplates = Record<BefundTemplateVariant, string>;
+
+// Bundeseinheitlicher Medikationsplan (BMP) entry
+export interface BmpEntry {
+  substance_id: string;
+  fragment: string;                  // <M> element to merge into an existing plan
+  payload: string;                   // complete <MP> document as 2D barcode content (ISO 8859-1)
+  warnings_de: string[];             // preparation-dependent dosing, off-label use
+}
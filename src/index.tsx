@@ -1,5 +1,7 @@
 import { render } from 'solid-js/web';
 import App from './App';
+import { DataErrorScreen } from './components/DataErrorScreen';
+import { validateContextData } from './data/schemaValidation';
 import './styles.css';
 import { logger } from './utils/logger';
 
@@ -10,7 +12,12 @@ logger.log('Root element:', root);
 
 if (root) {
   try {
-    render(() => <App />, root);
+    // Refuse to compute with invalid guideline data
+    const dataIssues = validateContextData();
+    if (dataIssues.length > 0) {
+      logger.error('Context data failed schema validation:', dataIssues);
+    }
+    render(() => (dataIssues.length > 0 ? <DataErrorScreen issues={dataIssues} /> : <App />), root);
     logger.log('App rendered successfully');
   } catch (error) {
     logger.error('Error rendering App:', error);
@@ -0,0 +1,42 @@
+import type { BefundTemplates, BefundTemplateVariant } from '../data/types';
+import { DEFAULT_BEFUND_TEMPLATES } from '../data/befundText';
+
+/**
+ * Practice-specific Befund templates in localStorage (text only, no patient data)
+ * Variants without a saved template fall back to the built-in default.
+ */
+const TEMPLATE_STORAGE_KEY = 'osteopo.befundTemplates';
+
+function readOverrides(): Partial<BefundTemplates> {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) ?? '{}');
+    if (!parsed || typeof parsed !== 'object') return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([key, value]) => key in DEFAULT_BEFUND_TEMPLATES && typeof value === 'string')
+    );
+  } catch {
+    return {};
+  }
+}
+
+function writeOverrides(overrides: Partial<BefundTemplates>): void {
+  try {
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(overrides));
+  } catch {
+    // templates then only apply until the tab is closed
+  }
+}
+
+export function loadBefundTemplates(): BefundTemplates {
+  return { ...DEFAULT_BEFUND_TEMPLATES, ...readOverrides() };
+}
+
+export function saveBefundTemplate(variant: BefundTemplateVariant, template: string): void {
+  writeOverrides({ ...readOverrides(), [variant]: template });
+}
+
+export function resetBefundTemplate(variant: BefundTemplateVariant): void {
+  const overrides = readOverrides();
+  delete overrides[variant];
+  writeOverrides(overrides);
+}
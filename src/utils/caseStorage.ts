@@ -0,0 +1,275 @@
+import type { SavedCase } from '../data/types';
+import {
+  PBKDF2_ITERATIONS,
+  decryptJson,
+  deriveKey,
+  encryptJson,
+  randomSalt,
+} from './crypto';
+import type { EncryptedPayload } from './crypto';
+
+/**
+ * Browser-local case storage (no server)
+ *
+ * Two modes:
+ * - persistent: IndexedDB, every case encrypted at rest with a key derived
+ *   from the practice passphrase (WebCrypto). The key only lives in memory
+ *   while the storage is unlocked.
+ * - memory: no persistence at all; cases live in this tab and are gone
+ *   when it is closed.
+ *
+ * Cases saved before encryption was introduced (plaintext records) are
+ * encrypted when the vault is created or unlocked.
+ */
+
+export type StorageMode = 'persistent' | 'memory';
+
+export interface EncryptedBackup {
+  format: 'osteopo-backup';
+  version: 1;
+  created_at: string;
+  salt: string;
+  iterations: number;
+  payload: EncryptedPayload;     // encrypted SavedCase[]
+}
+
+interface VaultRecord {
+  id: 'vault';
+  salt: string;
+  iterations: number;
+  check: EncryptedPayload;       // encrypted VAULT_CHECK, verifies the passphrase
+}
+
+type CaseRecord = { id: string } & EncryptedPayload;
+
+export interface CaseListing {
+  cases: SavedCase[];
+  unreadableIds: string[];       // records that failed to decrypt (corrupt or interrupted migration)
+}
+
+const DB_NAME = 'osteopo';
+const DB_VERSION = 2;
+const STORE_CASES = 'cases';
+const STORE_META = 'meta';
+const VAULT_CHECK = 'osteopo-vault';
+const MODE_STORAGE_KEY = 'osteopo.storageMode';
+
+let sessionKey: CryptoKey | null = null;
+const memoryCases = new Map<string, SavedCase>();
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_CASES)) {
+        db.createObjectStore(STORE_CASES, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORE_META)) {
+        db.createObjectStore(STORE_META, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+  } finally {
+    db.close();
+  }
+}
+
+function isEncryptedRecord(record: CaseRecord | SavedCase): record is CaseRecord {
+  return 'iv' in record && 'data' in record;
+}
+
+function requireKey(): CryptoKey {
+  if (!sessionKey) throw new Error('Case storage is locked');
+  return sessionKey;
+}
+
+async function writeEncrypted(key: CryptoKey, saved: SavedCase): Promise<void> {
+  const record: CaseRecord = { id: saved.id, ...(await encryptJson(key, saved)) };
+  await withStore(STORE_CASES, 'readwrite', (store) => store.put(record));
+}
+
+/**
+ * Encrypt plaintext records left from unencrypted storage
+ */
+async function migratePlaintextCases(key: CryptoKey): Promise<void> {
+  const records = await withStore(STORE_CASES, 'readonly', (store) => store.getAll() as IDBRequest<Array<CaseRecord | SavedCase>>);
+  for (const record of records) {
+    if (!isEncryptedRecord(record)) await writeEncrypted(key, record);
+  }
+}
+
+function readVault(): Promise<VaultRecord | undefined> {
+  return withStore(STORE_META, 'readonly', (store) => store.get('vault') as IDBRequest<VaultRecord | undefined>);
+}
+
+export function getStorageMode(): StorageMode {
+  try {
+    return localStorage.getItem(MODE_STORAGE_KEY) === 'memory' ? 'memory' : 'persistent';
+  } catch {
+    return 'persistent';
+  }
+}
+
+/**
+ * Switch the storage mode (the choice itself is remembered, no patient data)
+ * Switching locks the persistent storage; encrypted cases stay in IndexedDB.
+ */
+export function setStorageMode(mode: StorageMode): void {
+  try {
+    localStorage.setItem(MODE_STORAGE_KEY, mode);
+  } catch {
+    // mode then only applies to this tab
+  }
+  lockCaseStorage();
+}
+
+/**
+ * Check whether the storage of the current mode can be used
+ */
+export function isCaseStorageAvailable(): boolean {
+  return getStorageMode() === 'memory' || typeof indexedDB !== 'undefined';
+}
+
+export async function hasCaseVault(): Promise<boolean> {
+  return (await readVault()) !== undefined;
+}
+
+export function isCaseStorageUnlocked(): boolean {
+  return getStorageMode() === 'memory' || sessionKey !== null;
+}
+
+/**
+ * Set up encrypted storage with a new passphrase (unlocks it)
+ */
+export async function createCaseVault(passphrase: string): Promise<void> {
+  const salt = randomSalt();
+  const key = await deriveKey(passphrase, salt);
+  const vault: VaultRecord = { id: 'vault', salt, iterations: PBKDF2_ITERATIONS, check: await encryptJson(key, VAULT_CHECK) };
+  await withStore(STORE_META, 'readwrite', (store) => store.put(vault));
+  await migratePlaintextCases(key);
+  sessionKey = key;
+}
+
+/**
+ * Unlock the encrypted storage
+ *
+ * @returns false if the passphrase is wrong
+ */
+export async function unlockCaseStorage(passphrase: string): Promise<boolean> {
+  const vault = await readVault();
+  if (!vault) return false;
+  const key = await deriveKey(passphrase, vault.salt, vault.iterations);
+  try {
+    if ((await decryptJson<string>(key, vault.check)) !== VAULT_CHECK) return false;
+  } catch {
+    return false;
+  }
+  await migratePlaintextCases(key);
+  sessionKey = key;
+  return true;
+}
+
+/**
+ * Forget the key (persistent mode) and drop all in-memory cases (memory mode)
+ */
+export function lockCaseStorage(): void {
+  sessionKey = null;
+  memoryCases.clear();
+}
+
+/**
+ * List the cases of the current mode
+ * Each record is decrypted on its own, so one unreadable record does not hide the others.
+ */
+export async function listCases(): Promise<CaseListing> {
+  if (getStorageMode() === 'memory') return { cases: Array.from(memoryCases.values()), unreadableIds: [] };
+  const key = requireKey();
+  const records = await withStore(STORE_CASES, 'readonly', (store) => store.getAll() as IDBRequest<CaseRecord[]>);
+  const encrypted = records.filter(isEncryptedRecord);
+  const decrypted = await Promise.allSettled(encrypted.map((record) => decryptJson<SavedCase>(key, record)));
+
+  const listing: CaseListing = { cases: [], unreadableIds: [] };
+  decrypted.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      listing.cases.push(outcome.value);
+    } else {
+      listing.unreadableIds.push(encrypted[index].id);
+    }
+  });
+  return listing;
+}
+
+export async function putCase(saved: SavedCase): Promise<void> {
+  if (getStorageMode() === 'memory') {
+    memoryCases.set(saved.id, structuredClone(saved));
+    return;
+  }
+  await writeEncrypted(requireKey(), saved);
+}
+
+export async function deleteCase(id: string): Promise<void> {
+  if (getStorageMode() === 'memory') {
+    memoryCases.delete(id);
+    return;
+  }
+  requireKey();
+  await withStore(STORE_CASES, 'readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Export all cases of the current mode as encrypted backup file content
+ *
+ * @param passphrase - Backup passphrase (needed again for the import)
+ */
+export async function exportEncryptedBackup(passphrase: string): Promise<string> {
+  const salt = randomSalt();
+  const key = await deriveKey(passphrase, salt);
+  const backup: EncryptedBackup = {
+    format: 'osteopo-backup',
+    version: 1,
+    created_at: new Date().toISOString(),
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    payload: await encryptJson(key, (await listCases()).cases),
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+/**
+ * Import an encrypted backup into the current mode (cases with the same ID are replaced)
+ *
+ * @returns Number of imported cases
+ * @throws If the file is no backup or the passphrase is wrong
+ */
+export async function importEncryptedBackup(content: string, passphrase: string): Promise<number> {
+  const backup = JSON.parse(content) as Partial<EncryptedBackup>;
+  if (backup.format !== 'osteopo-backup' || backup.version !== 1 || !backup.salt || !backup.payload) {
+    throw new Error('Not an osteopo backup file');
+  }
+  const key = await deriveKey(passphrase, backup.salt, backup.iterations ?? PBKDF2_ITERATIONS);
+  const cases = await decryptJson<SavedCase[]>(key, backup.payload);
+  for (const saved of cases) {
+    await putCase(saved);
+  }
+  return cases.length;
+}
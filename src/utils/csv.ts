@@ -0,0 +1,76 @@
+export type CsvDelimiter = ';' | ',' | '\t';
+
+export interface CsvTable {
+  header: string[];
+  rows: string[][];
+  delimiter: CsvDelimiter;
+}
+
+/**
+ * Guess the delimiter from the header line (German spreadsheets export ";")
+ */
+function detectDelimiter(firstLine: string): CsvDelimiter {
+  const candidates: CsvDelimiter[] = [';', '\t', ','];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting, delimiter auto-detected)
+ * Empty lines are skipped; a leading UTF-8 BOM is removed.
+ */
+export function parseCsv(text: string): CsvTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? '');
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((cell) => cell.trim() !== ''));
+  const [header = [], ...rows] = nonEmpty;
+  return { header: header.map((h) => h.trim()), rows, delimiter };
+}
+
+/**
+ * Serialize rows as CSV (fields quoted only when needed)
+ */
+export function serializeCsv(rows: string[][], delimiter: CsvDelimiter = ';'): string {
+  const quote = (value: string) =>
+    value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')
+      ? `"${value.replace(/"/g, '""')}"`
+      : value;
+  return rows.map((row) => row.map(quote).join(delimiter)).join('\r\n') + '\r\n';
+}
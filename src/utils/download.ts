@@ -0,0 +1,19 @@
+/**
+ * Offer content (text or bytes) as a file download in the browser
+ */
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Offer text content as a file download in the browser
+ */
+export function downloadTextFile(filename: string, content: string, mimeType = 'application/json'): void {
+  downloadFile(filename, content, mimeType);
+}
@@ -0,0 +1,22 @@
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Call onIdle once after timeoutMs without user input; restarts on every input
+ *
+ * @returns Function that stops watching
+ */
+export function watchInactivity(timeoutMs: number, onIdle: () => void): () => void {
+  let timer = window.setTimeout(onIdle, timeoutMs);
+
+  const reset = () => {
+    window.clearTimeout(timer);
+    timer = window.setTimeout(onIdle, timeoutMs);
+  };
+
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+
+  return () => {
+    window.clearTimeout(timer);
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset));
+  };
+}
@@ -1,7 +1,8 @@
 /**
  * Simple logger utility that only logs in development
  */
-const isDev = import.meta.env.DEV;
+// import.meta.env is only defined under Vite (undefined in scripts run via tsx)
+const isDev = import.meta.env?.DEV ?? false;
 
 export const logger = {
   log: (...args: unknown[]) => {
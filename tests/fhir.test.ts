@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseFhirBundle } from '../src/data/fhir';
+
+const REFERENCE_DATE = '2026-10-19';
+
+const parse = (bundle: unknown) => parseFhirBundle(JSON.stringify(bundle), REFERENCE_DATE);
+
+const patient = { resourceType: 'Patient', gender: 'female', birthDate: '1950-02-01' };
+
+test('a well-formed bundle is imported', () => {
+  const result = parse({ resourceType: 'Bundle', type: 'collection', entry: [{ resource: patient }] });
+  assert.deepEqual(result.errors_de, []);
+  assert.equal(result.state?.sex, 'female');
+  assert.equal(result.state?.age, 76);
+});
+
+test('entry that is not a list is rejected', () => {
+  const result = parse({ resourceType: 'Bundle', type: 'collection', entry: {} });
+  assert.equal(result.state, null);
+  assert.equal(result.errors_de.length, 1);
+  assert.match(result.errors_de[0], /Bundle\.entry ist keine Liste/);
+});
+
+test('a Condition whose code.coding is an object is rejected', () => {
+  const result = parse({
+    resourceType: 'Bundle',
+    type: 'collection',
+    entry: [
+      { resource: patient },
+      { resource: { resourceType: 'Condition', code: { coding: { system: 'http://hl7.org/fhir/sid/icd-10-gm', code: 'M05' } } } },
+    ],
+  });
+  assert.equal(result.state, null);
+  assert.match(result.errors_de.join(' '), /entry\[1\]\.resource\.code\.coding ist keine Liste/);
+});
+
+test('entries, resources and codings of the wrong type are rejected', () => {
+  const result = parse({
+    resourceType: 'Bundle',
+    type: 'collection',
+    entry: [
+      null,
+      { resource: 'Patient' },
+      { resource: { resourceType: 'Observation', code: { coding: [null] }, effectiveDateTime: 20240101 } },
+      { resource: { resourceType: 'Condition', clinicalStatus: 'active', onsetPeriod: '2025' } },
+    ],
+  });
+  assert.equal(result.state, null);
+  const errors = result.errors_de.join(' ');
+  assert.match(errors, /entry\[0\] ist kein Objekt/);
+  assert.match(errors, /entry\[1\]\.resource ist keine FHIR-Ressource/);
+  assert.match(errors, /entry\[2\]\.resource\.code\.coding\[0\] ist kein Objekt/);
+  assert.match(errors, /entry\[2\]\.resource\.effectiveDateTime ist kein Text/);
+  assert.match(errors, /entry\[3\]\.resource\.clinicalStatus ist kein Objekt/);
+  assert.match(errors, /entry\[3\]\.resource\.onsetPeriod ist kein Objekt/);
+});
+
+test('JSON that is no Bundle object is rejected', () => {
+  for (const content of ['null', '[]', '42', '{"resourceType":"Patient"}']) {
+    const result = parseFhirBundle(content, REFERENCE_DATE);
+    assert.equal(result.state, null);
+    assert.deepEqual(result.errors_de, ['Die Datei enthält kein FHIR-Bundle.']);
+  }
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getActiveGdtRequest, parseGdtRequest } from '../src/data/gdt';
+import type { ImportedGdtRequest } from '../src/data/types';
+
+function gdtLine(field: string, content: string): string {
+  return `${String(3 + 4 + content.length + 2).padStart(3, '0')}${field}${content}\r\n`;
+}
+
+const REQUEST_TEXT = [
+  gdtLine('8000', '6302'),
+  gdtLine('8315', 'OSTEOPO'),
+  gdtLine('8316', 'PRAXIS'),
+  gdtLine('9206', '3'),
+  gdtLine('3000', '4711'),
+  gdtLine('3101', 'Muster'),
+  gdtLine('3102', 'Erika'),
+  gdtLine('3103', '01021950'),
+  gdtLine('3110', '2'),
+].join('');
+
+function importRequest(caseGeneration: number): ImportedGdtRequest {
+  const { request, errors_de } = parseGdtRequest(REQUEST_TEXT, '2026-10-19');
+  assert.deepEqual(errors_de, []);
+  assert.ok(request);
+  return { request, case_generation: caseGeneration };
+}
+
+test('the imported request stays active while the case is unchanged', () => {
+  const imported = importRequest(3);
+  assert.equal(getActiveGdtRequest(imported, 3)?.patient_id, '4711');
+});
+
+test('the request is dropped once the case is reset or replaced', () => {
+  // auto-lock, opening a saved case and a FHIR import all start a new case generation
+  const imported = importRequest(3);
+  assert.equal(getActiveGdtRequest(imported, 4), null);
+});
+
+test('no request without an import', () => {
+  assert.equal(getActiveGdtRequest(null, 0), null);
+});